@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { exportAuditBundle, listAuditRecords, workstationFingerprint } from '@/lib/audit/audit-log';
+import { AuditBundleReport, AuditChainReport, AuditRecord, verifyAuditBundle, verifyAuditChain } from '@/lib/audit/verify';
+import { downloadFile } from '@/lib/utils';
+import { Download, RefreshCw, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+
+function short(hex: string): string {
+  return `${hex.slice(0, 16)}…`;
+}
+
+function ChainIssues({ report }: { report: AuditChainReport }) {
+  if (report.ok) return null;
+  return (
+    <Alert variant="destructive">
+      <ShieldAlert className="w-4 h-4" />
+      <AlertTitle>{report.issues.length} problem{report.issues.length === 1 ? '' : 's'} in the chain</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {report.issues.map(issue => (
+            <li key={`${issue.seq}-${issue.kind}`}>#{issue.seq} ({issue.kind}): {issue.message}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export default function AuditPage() {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [report, setReport] = useState<AuditChainReport | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [bundleName, setBundleName] = useState<string | null>(null);
+  const [bundleReport, setBundleReport] = useState<AuditBundleReport | null>(null);
+  const [expectedFingerprint, setExpectedFingerprint] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const loaded = await listAuditRecords();
+      setRecords(loaded);
+      setReport(await verifyAuditChain(loaded));
+      setFingerprint(await workstationFingerprint());
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to load audit log: ' + error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleExport = async () => {
+    try {
+      const bundle = await exportAuditBundle();
+      downloadFile(`oro-audit-${bundle.exportedAt.slice(0, 19).replace(/:/g, '-')}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+      if (report && !report.ok) {
+        toast.warning('Exported, but the chain has problems; the auditor will see them too');
+      }
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to export audit bundle: ' + error.message);
+    }
+  };
+
+  const handleVerifyBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBundleReport(null);
+    try {
+      setBundleReport(await verifyAuditBundle(JSON.parse(await file.text())));
+      setBundleName(file.name);
+    } catch (err) {
+      toast.error('Cannot verify bundle: ' + (err as Error).message);
+    }
+  };
+
+  const flagged = new Set(report?.issues.map(issue => issue.seq));
+  const expected = expectedFingerprint.trim().toLowerCase();
+  const fingerprintMatches = bundleReport && expected ? bundleReport.fingerprint === expected : null;
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Every license a dongle issued, in a hash chain: each record carries the hash of the one before, so edited or removed records show up.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                Chain
+                {report && (report.ok
+                  ? <Badge><ShieldCheck className="w-3 h-3 mr-1" />intact</Badge>
+                  : <Badge variant="destructive"><ShieldAlert className="w-3 h-3 mr-1" />broken</Badge>)}
+              </CardTitle>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={load}>
+                  <RefreshCw className="w-3 h-3 mr-1" /> Verify Again
+                </Button>
+                <Button size="sm" onClick={handleExport} disabled={isLoading}>
+                  <Download className="w-3 h-3 mr-1" /> Export Signed Bundle
+                </Button>
+              </div>
+            </div>
+            <CardDescription>
+              {isLoading ? 'Loading...' : `${records.length} records`}
+              {report?.head && <> · head <span className="font-mono">{short(report.head.hash)}</span></>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {fingerprint && (
+              <div className="text-xs">
+                <span className="text-muted-foreground">Workstation key fingerprint (give this to auditors): </span>
+                <span className="font-mono break-all">{fingerprint}</span>
+              </div>
+            )}
+            {report && <ChainIssues report={report} />}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Verify a Bundle</CardTitle>
+            <CardDescription>
+              Check an exported bundle the way an auditor would. Without the expected fingerprint, a valid signature only shows the bundle was not changed after signing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="bundle-file">Audit bundle (JSON)</Label>
+                <Input id="bundle-file" type="file" accept=".json,application/json" onChange={handleVerifyBundle} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bundle-fingerprint">Expected key fingerprint</Label>
+                <Input
+                  id="bundle-fingerprint"
+                  className="font-mono"
+                  value={expectedFingerprint}
+                  onChange={e => setExpectedFingerprint(e.target.value)}
+                />
+              </div>
+            </div>
+            {bundleReport && (
+              <div className="space-y-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{bundleName}</span>
+                  <Badge variant={bundleReport.ok && fingerprintMatches !== false ? 'default' : 'destructive'}>
+                    {bundleReport.ok && fingerprintMatches !== false ? 'verified' : 'failed'}
+                  </Badge>
+                  <span className="text-muted-foreground">{bundleReport.chain.count} records</span>
+                </div>
+                <ul className="text-xs space-y-1">
+                  <li>Signature: {bundleReport.signatureValid ? 'valid' : 'invalid'}</li>
+                  <li>Signed head: {bundleReport.headMatches ? 'matches the last record' : 'does not match the records'}</li>
+                  <li>
+                    Key fingerprint: <span className="font-mono break-all">{bundleReport.fingerprint}</span>
+                    {fingerprintMatches !== null && (fingerprintMatches ? ' (as expected)' : ' (does not match the expected one)')}
+                  </li>
+                </ul>
+                <ChainIssues report={bundleReport.chain} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Records</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!isLoading && records.length === 0 ? (
+              <div className="text-sm text-muted-foreground italic">No licenses issued yet.</div>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="p-2 text-right">#</th>
+                      <th className="p-2 text-left">Time</th>
+                      <th className="p-2 text-left">Source</th>
+                      <th className="p-2 text-left">Operator</th>
+                      <th className="p-2 text-left">UUID tag</th>
+                      <th className="p-2 text-left">License hash</th>
+                      <th className="p-2 text-left">Dongle</th>
+                      <th className="p-2 text-right">Counter</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...records].reverse().map(record => (
+                      <tr key={record.seq} className={`border-t ${flagged.has(record.seq) ? 'bg-destructive/10' : ''}`}>
+                        <td className="p-2 text-right">{record.seq}</td>
+                        <td className="p-2 whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                        <td className="p-2">{record.source}</td>
+                        <td className="p-2">{record.operator ?? '—'}</td>
+                        <td className="p-2 font-mono">{short(record.uuidTag)}</td>
+                        <td className="p-2 font-mono">{short(record.licenseHash)}</td>
+                        <td className="p-2">{record.dongle ?? '—'}</td>
+                        <td className="p-2 text-right whitespace-nowrap">
+                          {record.counterBefore ?? '—'} → {record.counterAfter ?? '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
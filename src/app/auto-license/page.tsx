@@ -1,6 +1,7 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useRef } from 'react';
+import Link from 'next/link';
 import { useHID } from '@/lib/hid/hid-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,47 +9,88 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { DebugConsole } from '@/components/debug-console';
-import { Usb, CheckCircle2, XCircle, Loader2, PlayCircle, Info } from 'lucide-react';
+import { BatchProvisioning } from '@/components/batch-provisioning';
+import { DonglePoolCard } from '@/components/dongle-pool';
+import { deviceLabel } from '@/lib/hid/device-pool';
+import {
+  runLicenseProcess,
+  emptyProcessData,
+  ProcessStep,
+  ExecutableStep,
+  LicenseProcessData,
+  STEP_PROGRESS,
+  RETRY_POLICIES,
+  UUIDDecision,
+  resumeStep,
+} from '@/lib/provisioning/license-process';
+import { auditLicense, recordLicenseAttempt, findIssuedLicense, failureOutcome, LedgerEntry } from '@/lib/ledger/ledger';
+import { Label } from '@/components/ui/label';
+import { fromHex } from '@/lib/utils';
+import { LicenseRejectedError, LicenseVerificationError, OperationCancelledError, describeError, ErrorDescription } from '@/lib/hid/errors';
+import { toastError, toastCreditAnomaly } from '@/lib/notify';
+import { LicenseVerifyMode } from '@/lib/hid/types';
+import { writeGateKey } from '@/lib/license/signature';
+import { useSettings, updateSettings } from '@/lib/settings';
+import { licenseCheckSkipped, setSkipLicenseCheck, useHasRole, useOperatorSession } from '@/lib/operators/session';
+import { Usb, CheckCircle2, XCircle, Loader2, PlayCircle, Info, History, ShieldAlert, RotateCcw, Square } from 'lucide-react';
 import { toast } from 'sonner';
 
-type ProcessStep = 'idle' | 'get-uuid' | 'get-counter' | 'generate-license' | 'write-license' | 'complete' | 'error';
+type ProcessMode = 'single' | 'batch';
+
+const STEP_TOASTS: Partial<Record<ProcessStep, string>> = {
+  'get-uuid': 'Step 1: Reading UUID from device (0x80 -> 0x81)...',
+  'get-counter': 'Step 2: Checking counter...',
+  'generate-license': 'Step 3: Generating license...',
+  'check-license': 'Checking license signature...',
+  'write-license': 'Step 4: Writing license to device...',
+  'verify-license': 'Step 5: Verifying license on device...',
+};
+
+const STEP_NAMES: Record<ExecutableStep, string> = {
+  'get-uuid': 'UUID read',
+  'get-counter': 'counter check',
+  'generate-license': 'license generation',
+  'check-license': 'license check',
+  'write-license': 'license write',
+};
 
 export default function AutoLicensePage() {
-  const { dongle, target } = useHID();
-  const [counter, setCounter] = useState<number | null>(null);
+  const { dongles, target, profile } = useHID();
+  const [mode, setMode] = useState<ProcessMode>('single');
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
   const [currentStep, setCurrentStep] = useState<ProcessStep>('idle');
   const [progress, setProgress] = useState(0);
   const [uuid, setUuid] = useState<Uint8Array | null>(null);
   const [license, setLicense] = useState<Uint8Array | null>(null);
+  const [reusedLicense, setReusedLicense] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [processError, setProcessError] = useState<ErrorDescription | null>(null);
+  const { verifyMode, licensePublicKey } = useSettings();
+  const canSkipCheck = useHasRole('admin');
+  const skipLicenseCheck = useOperatorSession()?.skipLicenseCheck ?? false;
 
-  const handleConnectDongle = async () => {
-    try {
-      await dongle.connect();
-      toast.success('License Dongle connected');
-    } catch (e) {
-      const error = e as Error;
-      toast.error('Failed to connect Dongle: ' + error.message);
-    }
-  };
+  // Duplicate UUID handling
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [duplicateEntry, setDuplicateEntry] = useState<LedgerEntry | null>(null);
+  const duplicateResolverRef = useRef<((decision: UUIDDecision) => void) | null>(null);
 
-  const handleDisconnectDongle = async () => {
-    try {
-      await dongle.disconnect();
-      setCounter(null);
-      toast.info('License Dongle disconnected');
-    } catch (e) {
-      const error = e as Error;
-      toast.error('Failed to disconnect Dongle: ' + error.message);
-    }
-  };
+  // Resumable state: the data of the last run and a pending retry confirmation
+  const processDataRef = useRef<LicenseProcessData | null>(null);
+  // Step a resumed run starts at; null when there is nothing to resume
+  const [resumeFrom, setResumeFrom] = useState<ExecutableStep | null>(null);
+  // The write gate rejected the license; replacing it is the operator's call
+  const [licenseRejected, setLicenseRejected] = useState(false);
+  const [retryPrompt, setRetryPrompt] = useState<{ step: ExecutableStep; error: ErrorDescription } | null>(null);
+  const retryResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  // Aborts the run in progress
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleConnectTarget = async () => {
     try {
       await target.connect();
       toast.success('Target Device connected');
     } catch (e) {
-      const error = e as Error;
-      toast.error('Failed to connect Target Device: ' + error.message);
+      toastError('Failed to connect Target Device', e);
     }
   };
 
@@ -57,96 +99,175 @@ export default function AutoLicensePage() {
       await target.disconnect();
       toast.info('Target Device disconnected');
     } catch (e) {
-      const error = e as Error;
-      toast.error('Failed to disconnect Target Device: ' + error.message);
+      toastError('Failed to disconnect Target Device', e);
     }
   };
 
-  const handleCheckCounter = useCallback(async () => {
-    if (!dongle.client) {
-      toast.error('Dongle not connected');
-      return;
-    }
+  // Ask the operator what to do when the UUID already has an issued license
+  const checkDuplicateUUID = async (deviceUuid: Uint8Array): Promise<UUIDDecision> => {
+    if (forceRegenerate) return { action: 'generate' };
+
+    const issued = await findIssuedLicense(deviceUuid);
+    if (!issued?.license) return { action: 'generate' };
+
+    return new Promise(resolve => {
+      duplicateResolverRef.current = resolve;
+      setDuplicateEntry(issued);
+    });
+  };
+
+  const resolveDuplicate = (decision: UUIDDecision) => {
+    duplicateResolverRef.current?.(decision);
+    duplicateResolverRef.current = null;
+    setDuplicateEntry(null);
+  };
 
+  // Non-idempotent steps (license generation) only retry with operator consent
+  const confirmRetry = (step: ExecutableStep, error: unknown): Promise<boolean> => {
+    return new Promise(resolve => {
+      retryResolverRef.current = resolve;
+      setRetryPrompt({ step, error: describeError(error) });
+    });
+  };
+
+  const resolveRetry = (confirmed: boolean) => {
+    retryResolverRef.current?.(confirmed);
+    retryResolverRef.current = null;
+    setRetryPrompt(null);
+  };
+
+  // A license missing from the history cannot be found for reuse: the operator has to know
+  const recordAttempt = (...args: Parameters<typeof recordLicenseAttempt>) =>
+    recordLicenseAttempt(...args).catch((e: unknown) => toastError('Not recorded in the provisioning history', e));
+
+  const runProcess = async (data: LicenseProcessData) => {
+    const dongle = dongles.pool.select();
+    if (!dongle || !target.client) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    processDataRef.current = data;
+    setResumeFrom(null);
+    setLicenseRejected(false);
+    setReusedLicense(false);
+    setVerifyError(null);
+    setProcessError(null);
     try {
-      const counterValue = await dongle.client.getCounter();
-      if (counterValue !== null) {
-        setCounter(counterValue);
-        toast.success(`Counter: ${counterValue}`);
-      } else {
-        toast.error('Failed to read counter');
+      await runLicenseProcess(dongle.client, target.client, data, {
+        onStep: step => {
+          setCurrentStep(step);
+          setProgress(STEP_PROGRESS[step]);
+          const message = STEP_TOASTS[step];
+          if (message) toast.info(message);
+        },
+        onData: data => {
+          setUuid(data.uuid);
+          setLicense(data.license);
+        },
+        nextDongle: exhausted => dongles.pool.select(exhausted)?.client ?? null,
+        onFailover: (from, to) => {
+          toast.warning(`${deviceLabel(from)} is out of credits`, {
+            description: `Switched to ${deviceLabel(to)}`,
+          });
+        },
+        onRetry: (step, attempt, error, delayMs) => {
+          toast.warning(`Retrying ${STEP_NAMES[step]} (attempt ${attempt}/${RETRY_POLICIES[step].maxAttempts})`, {
+            description: describeError(error).title,
+          });
+        },
+        confirmRetry,
+        checkUUID: checkDuplicateUUID,
+        auditLicense: d => auditLicense('auto', d),
+        verifyMode,
+        licenseKey: writeGateKey(licensePublicKey, licenseCheckSkipped()),
+        onCreditAnomaly: toastCreditAnomaly,
+        signal: controller.signal,
+      });
+
+      if (data.skipReason) {
+        setCurrentStep('idle');
+        setProgress(0);
+        await recordAttempt('auto', data, 'skipped', data.skipReason);
+        toast.info('Process stopped: ' + data.skipReason);
+        return;
       }
+
+      setReusedLicense(data.reusedLicense);
+      await recordAttempt('auto', data, 'success');
+      toast.success(data.reusedLicense
+        ? 'Stored license re-written to device (no credit used)'
+        : 'License process completed successfully! 🎉');
+
     } catch (e) {
       const error = e as Error;
-      toast.error('Counter check failed: ' + error.message);
+      setResumeFrom(data.failedStep ? resumeStep(data) : null);
+      setLicenseRejected(error instanceof LicenseRejectedError);
+      if (error instanceof OperationCancelledError) {
+        setCurrentStep('idle');
+        setProgress(0);
+        // Only worth a ledger entry once the UUID reached the dongle: a credit may be gone
+        if (data.failedStep === 'generate-license' || data.license) {
+          await recordAttempt('auto', data, 'failed', error.message);
+        }
+        toast.info('License process cancelled', {
+          description: data.failedStep ? `Stopped during ${STEP_NAMES[data.failedStep]}.` : undefined,
+        });
+        return;
+      }
+      if (error instanceof LicenseVerificationError) {
+        setCurrentStep('verify-failed');
+        setVerifyError(error.message);
+      } else {
+        setCurrentStep('error');
+        setProcessError(describeError(e));
+      }
+      await recordAttempt('auto', data, failureOutcome(e), error.message);
+      toastError('Process failed', e);
+      console.error('License process error:', e);
+    } finally {
+      abortRef.current = null;
     }
-  }, [dongle.client]);
+  };
 
-  useEffect(() => {
-    if (dongle.connectionState.isConnected && dongle.client) {
-      handleCheckCounter();
-    }
-  }, [dongle.connectionState.isConnected, dongle.client, handleCheckCounter]);
+  const handleCancelProcess = () => {
+    abortRef.current?.abort();
+    // Open prompts give way; the run then stops on the aborted signal
+    if (duplicateResolverRef.current) resolveDuplicate({ action: 'skip', reason: 'Cancelled by operator' });
+    if (retryResolverRef.current) resolveRetry(false);
+  };
 
   const handleStartProcess = async () => {
-    if (!dongle.client || !target.client) {
+    if (dongles.entries.length === 0 || !target.client) {
       toast.error('Please connect both devices first');
       return;
     }
 
-    if (counter === null || counter <= 0) {
-      toast.error('License counter must be greater than 0');
+    if (!dongles.pool.select()) {
+      toast.error('No dongle has credits left');
       return;
     }
 
-    try {
-      // Step 1: Get UUID from Device
-      setCurrentStep('get-uuid');
-      setProgress(25);
-      toast.info('Step 1: Reading UUID from device (0x80 -> 0x81)...');
-      const deviceUuid = await target.client.readUUID();
-      setUuid(deviceUuid);
-
-      // Step 2: Get Counter (already done, but refresh)
-      setCurrentStep('get-counter');
-      setProgress(40);
-      toast.info('Step 2: Checking counter...');
-      const newCounter = await dongle.client.getCounter();
-      if (newCounter === null || newCounter <= 0) {
-        throw new Error('Counter check failed or no licenses available');
-      }
-      setCounter(newCounter);
-
-      // Step 3: Generate License from Dongle
-      setCurrentStep('generate-license');
-      setProgress(60);
-      toast.info('Step 3: Generating license...');
-      
-      await dongle.client.sendFragmentedData(deviceUuid);
-      const generatedLicense = await dongle.client.receiveFragmentedData();
-      setLicense(generatedLicense);
-
-      // Step 4: Write License to Device
-      setCurrentStep('write-license');
-      setProgress(85);
-      toast.info('Step 4: Writing license to device...');
-      await target.client.writeLicense(generatedLicense);
-
-      // Complete
-      setCurrentStep('complete');
-      setProgress(100);
-      toast.success('License process completed successfully! 🎉');
+    await runProcess(emptyProcessData());
+  };
 
-    } catch (e) {
-      const error = e as Error;
-      setCurrentStep('error');
-      toast.error('Process failed: ' + error.message);
-      console.error('License process error:', e);
-    }
+  // Restart at the failed step, keeping the UUID and license already obtained
+  const handleResumeProcess = async () => {
+    if (!processDataRef.current || !resumeFrom) return;
+    await runProcess(processDataRef.current);
   };
 
-  const isReady = dongle.connectionState.isConnected && target.connectionState.isConnected && counter !== null && counter > 0;
-  const isProcessing = currentStep !== 'idle' && currentStep !== 'complete' && currentStep !== 'error';
+  // Only on request: the replacement costs another credit
+  const handleRegenerate = async () => {
+    const data = processDataRef.current;
+    if (!data) return;
+    data.license = null;
+    data.reusedLicense = false;
+    await runProcess(data);
+  };
+
+  const hasCredits = dongles.active !== null && dongles.totalCredits > 0;
+  const isReady = target.connectionState.isConnected && hasCredits;
+  const isProcessing = currentStep !== 'idle' && currentStep !== 'complete' && currentStep !== 'error' && currentStep !== 'verify-failed';
 
   return (
     <main className="min-h-screen bg-background flex flex-col font-sans">
@@ -156,54 +277,14 @@ export default function AutoLicensePage() {
           <p className="text-muted-foreground">
             One-click license generation with real-time progress tracking.
           </p>
+          <Link href="/history" className="text-sm text-muted-foreground hover:text-primary hover:underline">
+            View provisioning history →
+          </Link>
         </header>
 
         {/* Device Connection Status */}
         <div className="grid md:grid-cols-2 gap-4">
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base flex items-center gap-2">
-                <Usb className="w-4 h-4" />
-                License Dongle
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-sm">Status:</span>
-                <Badge variant={dongle.connectionState.isConnected ? 'default' : 'secondary'}>
-                  {dongle.connectionState.isConnected ? (
-                    <><CheckCircle2 className="w-3 h-3 mr-1" /> Connected</>
-                  ) : (
-                    <><XCircle className="w-3 h-3 mr-1" /> Disconnected</>
-                  )}
-                </Badge>
-              </div>
-              {dongle.connectionState.isConnected && (
-                <div className="flex items-center justify-between">
-                  <span className="text-sm">Counter:</span>
-                  <Badge variant={counter !== null && counter > 0 ? 'default' : 'destructive'}>
-                    {counter ?? '—'}
-                  </Badge>
-                </div>
-              )}
-              <div className="flex gap-2">
-                {!dongle.connectionState.isConnected ? (
-                  <Button size="sm" onClick={handleConnectDongle} className="flex-1">
-                    Connect
-                  </Button>
-                ) : (
-                  <>
-                    <Button size="sm" variant="outline" onClick={handleCheckCounter} className="flex-1">
-                      Refresh Counter
-                    </Button>
-                    <Button size="sm" variant="destructive" onClick={handleDisconnectDongle}>
-                      Disconnect
-                    </Button>
-                  </>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          <DonglePoolCard disabled={isProcessing || isBatchRunning} />
 
           <Card>
             <CardHeader className="pb-3">
@@ -218,6 +299,8 @@ export default function AutoLicensePage() {
                 <Badge variant={target.connectionState.isConnected ? 'default' : 'secondary'}>
                   {target.connectionState.isConnected ? (
                     <><CheckCircle2 className="w-3 h-3 mr-1" /> Connected</>
+                  ) : target.connectionState.isWaiting ? (
+                    <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> Waiting for device</>
                   ) : (
                     <><XCircle className="w-3 h-3 mr-1" /> Disconnected</>
                   )}
@@ -238,77 +321,252 @@ export default function AutoLicensePage() {
           </Card>
         </div>
 
+        {/* Mode Selection */}
+        <div className="flex gap-2">
+          <Button
+            variant={mode === 'single' ? 'default' : 'outline'}
+            size="sm"
+            disabled={isProcessing || isBatchRunning}
+            onClick={() => setMode('single')}
+          >
+            Single Unit
+          </Button>
+          <Button
+            variant={mode === 'batch' ? 'default' : 'outline'}
+            size="sm"
+            disabled={isProcessing || isBatchRunning}
+            onClick={() => setMode('batch')}
+          >
+            Batch
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            id="force-regenerate"
+            type="checkbox"
+            className="h-4 w-4"
+            checked={forceRegenerate}
+            disabled={isProcessing || isBatchRunning}
+            onChange={e => setForceRegenerate(e.target.checked)}
+          />
+          <Label htmlFor="force-regenerate" className="text-sm font-normal">
+            Force regeneration (ignore previously issued licenses and spend a new credit)
+          </Label>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="verify-mode" className="text-sm font-normal">Write verification:</Label>
+          <select
+            id="verify-mode"
+            className="border-input h-8 rounded-md border bg-transparent px-2 text-sm shadow-xs"
+            value={verifyMode}
+            disabled={isProcessing || isBatchRunning}
+            onChange={e => updateSettings({ verifyMode: e.target.value as LicenseVerifyMode })}
+          >
+            <option value="off">Off</option>
+            <option value="ack">Acknowledge only (0x83)</option>
+            <option value="readback">Full readback (0x84 → 0x85)</option>
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            id="skip-license-check"
+            type="checkbox"
+            className="h-4 w-4"
+            checked={canSkipCheck && skipLicenseCheck}
+            disabled={!canSkipCheck || isProcessing || isBatchRunning}
+            title={canSkipCheck ? undefined : 'Only an administrator can change this'}
+            onChange={e => setSkipLicenseCheck(e.target.checked)}
+          />
+          <Label htmlFor="skip-license-check" className="text-sm font-normal">
+            Skip the license check before writing until you sign out (for dongles whose licenses the check does not understand)
+          </Label>
+        </div>
+
+        {mode === 'batch' && (
+          <BatchProvisioning
+            forceRegenerate={forceRegenerate}
+            onRunningChange={setIsBatchRunning}
+          />
+        )}
+
         {/* Process Control */}
-        <Card>
-          <CardHeader>
-            <CardTitle>License Generation Process</CardTitle>
-            <CardDescription>
-              Automated workflow: Get UUID → Check Counter → Generate License → Write to Device
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {!isReady && (
-              <Alert>
-                <Info className="h-4 w-4" />
-                <AlertTitle>Setup Required</AlertTitle>
-                <AlertDescription>
-                  {!dongle.connectionState.isConnected && '• Connect License Dongle\n'}
-                  {!target.connectionState.isConnected && '• Connect Target Device\n'}
-                  {dongle.connectionState.isConnected && (counter === null || counter <= 0) && '• Check counter (must be > 0)'}
-                </AlertDescription>
-              </Alert>
-            )}
-
-            {currentStep !== 'idle' && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="font-medium">
-                    {currentStep === 'get-uuid' && 'Reading UUID...'}
-                    {currentStep === 'get-counter' && 'Checking Counter...'}
-                    {currentStep === 'generate-license' && 'Generating License...'}
-                    {currentStep === 'write-license' && 'Writing License...'}
-                    {currentStep === 'complete' && 'Complete!'}
-                    {currentStep === 'error' && 'Error'}
-                  </span>
-                  <span className="text-muted-foreground">{progress}%</span>
+        {mode === 'single' && (
+          <Card>
+            <CardHeader>
+              <CardTitle>License Generation Process</CardTitle>
+              <CardDescription>
+                Automated workflow: Get UUID → Check Counter → Generate License → Write to Device
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!isReady && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>Setup Required</AlertTitle>
+                  <AlertDescription>
+                    {dongles.entries.length === 0 && '• Connect License Dongle\n'}
+                    {!target.connectionState.isConnected && '• Connect Target Device\n'}
+                    {dongles.entries.length > 0 && !hasCredits && '• Check counter (must be > 0)'}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {currentStep !== 'idle' && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">
+                      {currentStep === 'get-uuid' && 'Reading UUID...'}
+                      {currentStep === 'get-counter' && 'Checking Counter...'}
+                      {currentStep === 'generate-license' && 'Generating License...'}
+                      {currentStep === 'check-license' && 'Checking License...'}
+                      {currentStep === 'write-license' && 'Writing License...'}
+                      {currentStep === 'verify-license' && 'Verifying License...'}
+                      {currentStep === 'verify-failed' && 'Verification Failed'}
+                      {currentStep === 'complete' && 'Complete!'}
+                      {currentStep === 'error' && 'Error'}
+                    </span>
+                    <span className="text-muted-foreground">{progress}%</span>
+                  </div>
+                  <Progress value={progress} />
                 </div>
-                <Progress value={progress} />
+              )}
+
+              {duplicateEntry && (
+                <Alert>
+                  <History className="h-4 w-4" />
+                  <AlertTitle>UUID already licensed</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      A license was issued for this UUID on {new Date(duplicateEntry.timestamp).toLocaleString()}.
+                      Re-writing it does not use a dongle credit.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => resolveDuplicate({ action: 'reuse', license: fromHex(duplicateEntry.license!) })}
+                      >
+                        Re-write Stored License
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => resolveDuplicate({ action: 'generate' })}>
+                        Generate New License (uses 1 credit)
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => resolveDuplicate({ action: 'skip', reason: 'Cancelled by operator' })}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2">
+                <Button 
+                  size="lg"
+                  className="flex-1"
+                  disabled={!isReady || isProcessing}
+                  onClick={handleStartProcess}
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Processing...
+                    </>
+                  ) : (
+                    <>
+                      <PlayCircle className="w-4 h-4 mr-2" />
+                      Start License Process
+                    </>
+                  )}
+                </Button>
+                {isProcessing && (
+                  <Button size="lg" variant="destructive" onClick={handleCancelProcess}>
+                    <Square className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
               </div>
-            )}
-
-            <Button 
-              size="lg"
-              className="w-full"
-              disabled={!isReady || isProcessing}
-              onClick={handleStartProcess}
-            >
-              {isProcessing ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <PlayCircle className="w-4 h-4 mr-2" />
-                  Start License Process
-                </>
+
+              {currentStep === 'error' && processError && (
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" />
+                  <AlertTitle>{processError.title}</AlertTitle>
+                  <AlertDescription>
+                    {processError.hint ?? 'Check the debug console below for details.'}
+                    {processError.code && <span className="block font-mono text-xs mt-1">{processError.code}</span>}
+                  </AlertDescription>
+                </Alert>
               )}
-            </Button>
-
-            {currentStep === 'complete' && (
-              <Alert className="border-green-500">
-                <CheckCircle2 className="h-4 w-4 text-green-500" />
-                <AlertTitle>Success!</AlertTitle>
-                <AlertDescription>
-                  License has been successfully generated and written to the device.
-                </AlertDescription>
-              </Alert>
-            )}
-          </CardContent>
-        </Card>
+
+              {retryPrompt && (
+                <Alert variant="destructive">
+                  <RotateCcw className="h-4 w-4" />
+                  <AlertTitle>Retry {STEP_NAMES[retryPrompt.step]}?</AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      {retryPrompt.error.title}. The dongle may already have spent a credit on this attempt, so
+                      retrying can use another one.
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => resolveRetry(true)}>Retry (may use 1 credit)</Button>
+                      <Button size="sm" variant="outline" onClick={() => resolveRetry(false)}>Abort</Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {resumeFrom && !isProcessing && (
+                <Button variant="outline" className="w-full" onClick={handleResumeProcess} disabled={resumeFrom === 'check-license' || resumeFrom === 'write-license' ? !target.connectionState.isConnected : !isReady}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Resume from {STEP_NAMES[resumeFrom]}
+                  {resumeFrom !== 'get-uuid' && (
+                    <span className="ml-1 text-muted-foreground">
+                      (reusing {resumeFrom === 'check-license' || resumeFrom === 'write-license' ? 'UUID and license' : 'UUID'})
+                    </span>
+                  )}
+                </Button>
+              )}
+
+              {licenseRejected && !isProcessing && (
+                <Button variant="outline" className="w-full" onClick={handleRegenerate} disabled={!isReady}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Generate a New License (uses 1 credit)
+                </Button>
+              )}
+
+              {currentStep === 'verify-failed' && (
+                <Alert variant="destructive">
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertTitle>License not confirmed by target</AlertTitle>
+                  <AlertDescription>
+                    {verifyError} The license was sent, but the target did not store it correctly. Replug the target and
+                    re-run the process to re-write the same license without spending a credit.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {currentStep === 'complete' && (
+                <Alert className="border-green-500">
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  <AlertTitle>Success!</AlertTitle>
+                  <AlertDescription>
+                    {reusedLicense
+                      ? 'The previously issued license has been re-written to the device.'
+                      : 'License has been successfully generated and written to the device.'}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Process Details */}
-        {(uuid || license) && (
+        {mode === 'single' && (uuid || license) && (
           <Card>
             <CardHeader>
               <CardTitle className="text-base">Process Data</CardTitle>
@@ -316,7 +574,7 @@ export default function AutoLicensePage() {
             <CardContent className="space-y-3">
               {uuid && (
                 <div className="space-y-1">
-                  <span className="text-xs font-medium text-muted-foreground">UUID (128 bytes)</span>
+                  <span className="text-xs font-medium text-muted-foreground">UUID ({profile.uuidLength} bytes)</span>
                   <div className="p-2 bg-muted rounded text-xs font-mono break-all">
                     {Array.from(uuid).map(b => b.toString(16).padStart(2, '0')).join(' ')}
                   </div>
@@ -324,7 +582,7 @@ export default function AutoLicensePage() {
               )}
               {license && (
                 <div className="space-y-1">
-                  <span className="text-xs font-medium text-muted-foreground">License (256 bytes)</span>
+                  <span className="text-xs font-medium text-muted-foreground">License ({profile.licenseLength} bytes)</span>
                   <div className="p-2 bg-muted rounded text-xs font-mono break-all max-h-32 overflow-y-auto">
                     {Array.from(license).map(b => b.toString(16).padStart(2, '0')).join(' ')}
                   </div>
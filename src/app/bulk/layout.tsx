@@ -0,0 +1,15 @@
+'use client';
+
+import { HIDProvider } from "@/lib/hid/hid-context";
+import { RoleGate } from "@/components/operator-gate";
+import BulkPage from "./page";
+
+export default function BulkLayout() {
+  return (
+    <RoleGate role="engineer">
+      <HIDProvider>
+        <BulkPage />
+      </HIDProvider>
+    </RoleGate>
+  );
+}
@@ -0,0 +1,427 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useHID } from '@/lib/hid/hid-context';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { DebugConsole } from '@/components/debug-console';
+import { DonglePoolCard } from '@/components/dongle-pool';
+import {
+  BulkItem,
+  BulkItemStatus,
+  BulkJob,
+  UUIDList,
+  bulkManifestCSV,
+  bulkManifestJSON,
+  createBulkJob,
+  deleteBulkJob,
+  listBulkJobs,
+  loadBulkItems,
+  parseUUIDList,
+  retryFailedItems,
+  retryInterruptedItems,
+  runBulkJob,
+  tallyBulk,
+} from '@/lib/provisioning/bulk';
+import { CounterExhaustedError, describeError } from '@/lib/hid/errors';
+import { toastError, toastCreditAnomaly } from '@/lib/notify';
+import { downloadFile } from '@/lib/utils';
+import { Download, Info, Loader2, PlayCircle, RotateCcw, Square, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const STATUS_VARIANT: Record<BulkItemStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  generating: 'secondary',
+  generated: 'default',
+  reused: 'secondary',
+  failed: 'destructive',
+  interrupted: 'destructive',
+};
+
+/** Rendering thousands of rows freezes the page; the manifest has them all. */
+const MAX_ROWS = 200;
+
+interface ImportedList {
+  name: string;
+  list: UUIDList;
+}
+
+export default function BulkPage() {
+  const { dongles, profile } = useHID();
+  const [jobs, setJobs] = useState<BulkJob[]>([]);
+  const [job, setJob] = useState<BulkJob | null>(null);
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [imported, setImported] = useState<ImportedList | null>(null);
+  const [reuseIssued, setReuseIssued] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [stopReason, setStopReason] = useState<string | null>(null);
+  const stopRequestedRef = useRef(false);
+
+  const tally = tallyBulk(items);
+  const done = tally.generated + tally.reused;
+  const profileMismatch = job !== null && job.profileId !== profile.id;
+
+  const openJob = async (next: BulkJob | null) => {
+    setJob(next);
+    setStopReason(null);
+    try {
+      setItems(next ? await loadBulkItems(next.id) : []);
+    } catch (e) {
+      toast.error('Failed to load job: ' + (e as Error).message);
+    }
+  };
+
+  // Reopen the latest job so an interrupted run can be resumed
+  useEffect(() => {
+    listBulkJobs()
+      .then(list => {
+        setJobs(list);
+        return openJob(list[0] ?? null);
+      })
+      .catch(e => toast.error('Failed to load bulk jobs: ' + (e as Error).message));
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setImported({ name: file.name, list: parseUUIDList(await file.text(), profile.uuidLength) });
+    } catch (err) {
+      toast.error('Failed to import UUID list: ' + (err as Error).message);
+    }
+  };
+
+  const handleCreateJob = async () => {
+    if (!imported || imported.list.uuids.length === 0) return;
+    try {
+      const created = await createBulkJob(imported.name, imported.list.uuids, profile.id, reuseIssued);
+      setJobs(prev => [created.job, ...prev]);
+      setJob(created.job);
+      setItems(created.items);
+      setImported(null);
+      setStopReason(null);
+    } catch (e) {
+      toast.error('Failed to create job: ' + (e as Error).message);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!job) return;
+    if (dongles.entries.length === 0) {
+      toast.error('Connect the License Dongle first');
+      return;
+    }
+    // Never start what the credits cannot finish
+    if (tally.pending > dongles.totalCredits) {
+      toast.error(`Not enough credits for ${tally.pending} UUIDs`, {
+        description: `The attached dongles have ${dongles.totalCredits} credits left. Add a dongle or split the list.`,
+      });
+      return;
+    }
+
+    stopRequestedRef.current = false;
+    setStopReason(null);
+    setIsRunning(true);
+    try {
+      const { outcome, error } = await runBulkJob(items, {
+        selectDongle: exhausted => dongles.pool.select(exhausted)?.client ?? null,
+        onItem: item => setItems(prev => prev.map(i => (i.id === item.id ? item : i))),
+        shouldStop: () => stopRequestedRef.current,
+        onCreditAnomaly: toastCreditAnomaly,
+      });
+
+      if (outcome === 'complete') {
+        toast.success('Bulk generation finished');
+      } else if (outcome === 'stopped') {
+        setStopReason('Stopped by operator');
+      } else {
+        const unreadable = error instanceof CounterExhaustedError && error.counter === null;
+        setStopReason(outcome === 'exhausted' && !unreadable ? 'The dongles ran out of credits' : describeError(error).title);
+        toastError('Bulk generation stopped', error);
+      }
+    } catch (e) {
+      toastError('Bulk generation stopped', e);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    try {
+      setItems(await retryFailedItems(items));
+      setStopReason(null);
+    } catch (e) {
+      toast.error('Failed to reset items: ' + (e as Error).message);
+    }
+  };
+
+  const handleRetryInterrupted = async () => {
+    const count = tally.interrupted;
+    if (!window.confirm(`${count} UUID${count === 1 ? ' was' : 's were'} interrupted during generation. The dongle may already have spent a credit on each; generating again spends another. Retry anyway?`)) return;
+    try {
+      setItems(await retryInterruptedItems(items));
+      setStopReason(null);
+    } catch (e) {
+      toast.error('Failed to reset items: ' + (e as Error).message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!job) return;
+    if (done > 0 && !window.confirm(`Delete "${job.name}"? Download the manifest first; the ${done} licenses stay in the provisioning history.`)) return;
+    try {
+      await deleteBulkJob(job.id);
+      const rest = jobs.filter(j => j.id !== job.id);
+      setJobs(rest);
+      await openJob(rest[0] ?? null);
+    } catch (e) {
+      toast.error('Failed to delete job: ' + (e as Error).message);
+    }
+  };
+
+  const handleDownload = (format: 'json' | 'csv') => {
+    if (!job) return;
+    const base = job.name.replace(/\.[^.]+$/, '');
+    if (format === 'json') {
+      downloadFile(`${base}.licenses.json`, bulkManifestJSON(job, items), 'application/json');
+    } else {
+      downloadFile(`${base}.licenses.csv`, bulkManifestCSV(items), 'text/csv');
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Bulk Generation</h1>
+          <p className="text-muted-foreground">
+            Generates licenses for a list of UUIDs ahead of the units, e.g. a list from the contract manufacturer.
+            Progress is saved after every license, so an interrupted job resumes where it stopped.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <DonglePoolCard disabled={isRunning} />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Import UUID List</CardTitle>
+              <CardDescription>
+                CSV with one UUID per line (or a &quot;uuid&quot; column), or a JSON array. Each UUID is {profile.uuidLength * 2} hex characters.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Input type="file" accept=".csv,.json,.txt,text/csv,application/json" disabled={isRunning} onChange={handleImport} />
+              {imported && (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    <span className="font-medium">{imported.name}</span>: {imported.list.uuids.length} valid UUIDs
+                    {imported.list.issues.length > 0 && `, ${imported.list.issues.length} left out`}
+                  </p>
+                  {imported.list.issues.length > 0 && (
+                    <div className="max-h-32 overflow-y-auto rounded-md border text-xs">
+                      {imported.list.issues.map(issue => (
+                        <div key={issue.position} className="flex gap-2 border-t first:border-t-0 p-1">
+                          <span className="text-muted-foreground w-16 shrink-0">#{issue.position}</span>
+                          <Badge variant={issue.reason === 'duplicate' ? 'secondary' : 'destructive'}>{issue.reason}</Badge>
+                          <span>{issue.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <label className="flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={reuseIssued} onChange={e => setReuseIssued(e.target.checked)} />
+                    Reuse licenses already issued to these UUIDs
+                  </label>
+                  <div className="flex gap-2">
+                    <Button size="sm" disabled={imported.list.uuids.length === 0} onClick={handleCreateJob}>
+                      Create Job
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setImported(null)}>Discard</Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {jobs.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="bulk-job" className="text-sm font-normal whitespace-nowrap">Job:</Label>
+            <select
+              id="bulk-job"
+              className="h-9 rounded-md border bg-background px-2 text-sm"
+              value={job?.id ?? ''}
+              disabled={isRunning}
+              onChange={e => openJob(jobs.find(j => j.id === e.target.value) ?? null)}
+            >
+              {jobs.map(j => (
+                <option key={j.id} value={j.id}>
+                  {j.name} · {j.total} UUIDs · {new Date(j.createdAt).toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {job && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base">{job.name}</CardTitle>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" disabled={done === 0} onClick={() => handleDownload('json')}>
+                    <Download className="w-3 h-3 mr-1" /> JSON
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={done === 0} onClick={() => handleDownload('csv')}>
+                    <Download className="w-3 h-3 mr-1" /> CSV
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={isRunning} onClick={handleDelete}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+              <CardDescription>
+                {done}/{job.total} licensed · {tally.pending} pending · capacity {dongles.totalCredits} credits
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={job.total ? (done / job.total) * 100 : 0} />
+
+              <div className="grid grid-cols-5 gap-2 text-center">
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-green-600">{tally.generated}</div>
+                  <div className="text-xs text-muted-foreground">Generated</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold">{tally.reused}</div>
+                  <div className="text-xs text-muted-foreground">Reused</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-red-600">{tally.failed}</div>
+                  <div className="text-xs text-muted-foreground">Failed</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-red-600">{tally.interrupted}</div>
+                  <div className="text-xs text-muted-foreground">Interrupted</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-muted-foreground">{tally.pending}</div>
+                  <div className="text-xs text-muted-foreground">Pending</div>
+                </div>
+              </div>
+
+              {profileMismatch && (
+                <Alert variant="destructive">
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>Different device profile</AlertTitle>
+                  <AlertDescription>
+                    This job was created for profile &quot;{job.profileId}&quot;. Switch to it on the Device Profiles page to continue.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {tally.interrupted > 0 && !isRunning && (
+                <Alert variant="destructive">
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>Interrupted during generation</AlertTitle>
+                  <AlertDescription>
+                    {tally.interrupted} UUID{tally.interrupted === 1 ? ' was' : 's were'} being generated when the job stopped. The dongle may already have spent a credit without the license arriving, so they are not retried with the failed ones.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {stopReason && !isRunning && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>Job stopped</AlertTitle>
+                  <AlertDescription>{stopReason}. Pending UUIDs are kept; start again to resume.</AlertDescription>
+                </Alert>
+              )}
+
+              {!isRunning ? (
+                <div className="flex gap-2">
+                  <Button
+                    size="lg"
+                    className="flex-1"
+                    disabled={tally.pending === 0 || dongles.entries.length === 0 || profileMismatch}
+                    onClick={handleStart}
+                  >
+                    <PlayCircle className="w-4 h-4 mr-2" />
+                    {done > 0 || tally.failed > 0 || tally.interrupted > 0 ? `Resume (${tally.pending} pending)` : `Generate ${tally.pending} Licenses`}
+                  </Button>
+                  {tally.failed > 0 && (
+                    <Button size="lg" variant="outline" onClick={handleRetryFailed}>
+                      <RotateCcw className="w-4 h-4 mr-2" /> Retry Failed
+                    </Button>
+                  )}
+                  {tally.interrupted > 0 && (
+                    <Button size="lg" variant="outline" onClick={handleRetryInterrupted}>
+                      <RotateCcw className="w-4 h-4 mr-2" /> Retry Interrupted
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <Button size="lg" variant="destructive" className="w-full" onClick={() => { stopRequestedRef.current = true; }}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop After Current License
+                </Button>
+              )}
+
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="p-2 text-left">#</th>
+                      <th className="p-2 text-left">UUID</th>
+                      <th className="p-2 text-left">Status</th>
+                      <th className="p-2 text-left">Dongle</th>
+                      <th className="p-2 text-right">Counter</th>
+                      <th className="p-2 text-left">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.slice(0, MAX_ROWS).map(item => (
+                      <tr key={item.id} className="border-t">
+                        <td className="p-2">{item.index + 1}</td>
+                        <td className="p-2 font-mono">{item.uuid.slice(0, 16)}…</td>
+                        <td className="p-2">
+                          <Badge variant={STATUS_VARIANT[item.status]}>
+                            {item.status === 'generating' && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                            {item.status}
+                          </Badge>
+                        </td>
+                        <td className="p-2">{item.dongle ?? '—'}</td>
+                        <td className="p-2 text-right">{item.counterAfter ?? '—'}</td>
+                        <td className="p-2 text-muted-foreground">{item.error ?? (item.creditAnomaly ? `Credit anomaly: ${item.creditAnomaly}` : '')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {items.length > MAX_ROWS && (
+                  <p className="p-2 text-xs text-muted-foreground border-t">
+                    Showing the first {MAX_ROWS} of {items.length} UUIDs; the manifest contains every license.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <DebugConsole />
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CreditChart } from '@/components/credit-chart';
+import { listLedgerEntries } from '@/lib/ledger/ledger';
+import { DongleCreditHistory, creditHistory, describeCreditAnomaly, isLowCredit } from '@/lib/ledger/credits';
+import { useSettings, updateSettings } from '@/lib/settings';
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function CreditsPage() {
+  const { lowCreditThreshold } = useSettings();
+  const [histories, setHistories] = useState<DongleCreditHistory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      setHistories(creditHistory(await listLedgerEntries()));
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to load history: ' + error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleThresholdChange = (text: string) => {
+    const value = parseInt(text, 10);
+    if (Number.isInteger(value) && value >= 0) {
+      updateSettings({ lowCreditThreshold: value });
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Dongle Credits</h1>
+          <p className="text-muted-foreground">
+            Counter readings per dongle from the provisioning history. Every generated license should cost exactly one credit.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="low-credit-threshold" className="text-sm font-normal">Warn at or below</Label>
+              <Input
+                id="low-credit-threshold"
+                type="number"
+                min={0}
+                className="h-8 w-24"
+                value={lowCreditThreshold}
+                onChange={e => handleThresholdChange(e.target.value)}
+              />
+              <span className="text-sm text-muted-foreground">credits</span>
+            </div>
+            <Button size="sm" variant="outline" onClick={load}>
+              <RefreshCw className="w-3 h-3 mr-1" /> Refresh
+            </Button>
+          </CardContent>
+        </Card>
+
+        {!isLoading && histories.length === 0 && (
+          <div className="text-sm text-muted-foreground italic">No licenses have been generated on this machine yet.</div>
+        )}
+
+        {histories.map(history => (
+          <Card key={history.dongle}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">{history.dongle}</CardTitle>
+                <div className="flex gap-1">
+                  {isLowCredit(history.lastCounter, lowCreditThreshold) && <Badge variant="destructive">low</Badge>}
+                  {history.anomalies.length > 0 && (
+                    <Badge variant="destructive">{history.anomalies.length} anomalies</Badge>
+                  )}
+                </div>
+              </div>
+              <CardDescription>
+                {history.generated} licenses generated · last counter {history.lastCounter ?? '—'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <CreditChart samples={history.samples} anomalies={history.anomalies} threshold={lowCreditThreshold} />
+
+              {history.anomalies.length > 0 && (
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50 text-muted-foreground">
+                      <tr>
+                        <th className="p-2 text-left">Time</th>
+                        <th className="p-2 text-left">Anomaly</th>
+                        <th className="p-2 text-left">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...history.anomalies].reverse().map((anomaly, i) => (
+                        <tr key={i} className="border-t">
+                          <td className="p-2 whitespace-nowrap">{new Date(anomaly.timestamp).toLocaleString()}</td>
+                          <td className="p-2">{anomaly.kind}</td>
+                          <td className="p-2 text-muted-foreground">{describeCreditAnomaly(anomaly)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </main>
+  );
+}
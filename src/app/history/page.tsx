@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LedgerEntry, LedgerOutcome, LedgerQuery, listLedgerEntries, deleteLedgerEntry } from '@/lib/ledger/ledger';
+import { useHasRole } from '@/lib/operators/session';
+import { Trash2, ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+const OUTCOME_VARIANT: Record<LedgerOutcome, 'default' | 'destructive' | 'secondary'> = {
+  success: 'default',
+  failed: 'destructive',
+  rejected: 'destructive',
+  skipped: 'secondary',
+  generated: 'secondary',
+};
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const canDelete = useHasRole('admin');
+
+  // Filters
+  const [uuidPrefix, setUuidPrefix] = useState('');
+  const [outcome, setOutcome] = useState<LedgerOutcome | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    const query: LedgerQuery = {
+      uuidPrefix: uuidPrefix || undefined,
+      outcome: outcome || undefined,
+      // Date inputs are local calendar days; `to` covers the whole day
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined,
+    };
+
+    try {
+      setEntries(await listLedgerEntries(query));
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to load history: ' + error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [uuidPrefix, outcome, fromDate, toDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleDelete = async (entry: LedgerEntry) => {
+    if (!window.confirm(`Delete the ${entry.outcome} entry from ${new Date(entry.timestamp).toLocaleString()}?`)) {
+      return;
+    }
+
+    try {
+      await deleteLedgerEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+      toast.info('Entry deleted');
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to delete entry: ' + error.message);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setUuidPrefix('');
+    setOutcome('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Provisioning History</h1>
+          <p className="text-muted-foreground">
+            Every licensing attempt made on this machine, stored locally in the browser.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/auto-license" className="text-muted-foreground hover:text-primary hover:underline">Automated Process</Link>
+            <Link href="/credits" className="text-muted-foreground hover:text-primary hover:underline">Dongle Credits</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>UUID prefix (hex)</Label>
+                <Input value={uuidPrefix} onChange={e => setUuidPrefix(e.target.value)} placeholder="a1b2c3..." className="font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label>Outcome</Label>
+                <select
+                  className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                  value={outcome}
+                  onChange={e => setOutcome(e.target.value as LedgerOutcome | '')}
+                >
+                  <option value="">All</option>
+                  <option value="success">Success</option>
+                  <option value="failed">Failed</option>
+                  <option value="rejected">Rejected</option>
+                  <option value="skipped">Skipped</option>
+                  <option value="generated">Generated, not written</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label>From</Label>
+                <Input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>To</Label>
+                <Input type="date" value={toDate} onChange={e => setToDate(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex gap-2 mt-4">
+              <Button size="sm" variant="outline" onClick={loadEntries}>
+                <RefreshCw className="w-3 h-3 mr-1" /> Refresh
+              </Button>
+              <Button size="sm" variant="ghost" onClick={handleClearFilters}>Clear Filters</Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Entries</CardTitle>
+            <CardDescription>{isLoading ? 'Loading...' : `${entries.length} matching entries`}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!isLoading && entries.length === 0 ? (
+              <div className="text-sm text-muted-foreground italic">No entries found.</div>
+            ) : (
+              <div className="rounded-md border overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground">
+                    <tr>
+                      <th className="p-2 w-6" />
+                      <th className="p-2 text-left">Time</th>
+                      <th className="p-2 text-left">Source</th>
+                      <th className="p-2 text-left">Operator</th>
+                      <th className="p-2 text-left">UUID</th>
+                      <th className="p-2 text-left">Outcome</th>
+                      <th className="p-2 text-right">Counter</th>
+                      <th className="p-2 w-8" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entries.map(entry => {
+                      const isExpanded = expandedId === entry.id;
+                      return (
+                        <React.Fragment key={entry.id}>
+                          <tr className="border-t hover:bg-muted/30 cursor-pointer" onClick={() => setExpandedId(isExpanded ? null : entry.id)}>
+                            <td className="p-2">
+                              {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                            </td>
+                            <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                            <td className="p-2">{entry.source}</td>
+                            <td className="p-2">{entry.operator ?? '—'}</td>
+                            <td className="p-2 font-mono">{entry.uuid ? `${entry.uuid.slice(0, 16)}…` : '—'}</td>
+                            <td className="p-2">
+                              <Badge variant={OUTCOME_VARIANT[entry.outcome]}>{entry.outcome}</Badge>
+                              {entry.reusedLicense && <Badge variant="outline" className="ml-1">reused</Badge>}
+                              {entry.creditAnomaly && <Badge variant="destructive" className="ml-1">{entry.creditAnomaly}</Badge>}
+                            </td>
+                            <td className="p-2 text-right whitespace-nowrap">
+                              {entry.counterBefore ?? '—'} → {entry.counterAfter ?? '—'}
+                            </td>
+                            <td className="p-2">
+                              {canDelete && (
+                                <Button
+                                  size="icon-sm"
+                                  variant="ghost"
+                                  onClick={e => {
+                                    e.stopPropagation();
+                                    handleDelete(entry);
+                                  }}
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                          {isExpanded && (
+                            <tr className="bg-muted/20">
+                              <td />
+                              <td colSpan={7} className="p-2 space-y-2">
+                                {entry.error && <p className="text-red-500">{entry.error}</p>}
+                                {entry.dongle && (
+                                  <div>
+                                    <span className="font-medium text-muted-foreground">Dongle</span>
+                                    <div>{entry.dongle}</div>
+                                  </div>
+                                )}
+                                <div>
+                                  <span className="font-medium text-muted-foreground">UUID</span>
+                                  <div className="font-mono break-all">{entry.uuid ?? '—'}</div>
+                                </div>
+                                <div>
+                                  <span className="font-medium text-muted-foreground">License</span>
+                                  <div className="font-mono break-all">{entry.license ?? '—'}</div>
+                                </div>
+                              </td>
+                            </tr>
+                          )}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
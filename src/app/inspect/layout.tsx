@@ -0,0 +1,7 @@
+'use client';
+
+import { RoleGate } from "@/components/operator-gate";
+
+export default function InspectLayout({ children }: { children: React.ReactNode }) {
+  return <RoleGate role="engineer">{children}</RoleGate>;
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LedgerEntry, listLedgerEntries } from '@/lib/ledger/ledger';
+import { LICENSE_FIELDS, LicenseField } from '@/lib/license/format';
+import { LicenseInspection, LicenseCheckStatus, LicenseVerdict, inspectLicense } from '@/lib/license/inspect';
+import { SIMULATOR_PUBLIC_KEY, bundledPublicKey, resolvePublicKey } from '@/lib/license/signature';
+import { DEFAULT_TRANSPORT } from '@/lib/hid/hid-context';
+import { useSettings, updateSettings, useDeviceProfile } from '@/lib/settings';
+import { useHasRole } from '@/lib/operators/session';
+import { fromHex, toHex } from '@/lib/utils';
+import { Check, X, Minus, Search } from 'lucide-react';
+import { toast } from 'sonner';
+
+const VERDICT: Record<LicenseVerdict, { label: string; variant: 'default' | 'destructive' | 'secondary' }> = {
+  accepted: { label: 'Would be accepted', variant: 'default' },
+  rejected: { label: 'Would be rejected', variant: 'destructive' },
+  incomplete: { label: 'Cannot tell', variant: 'secondary' },
+};
+
+const CHECK_ICON: Record<LicenseCheckStatus, React.ReactNode> = {
+  pass: <Check className="w-4 h-4 text-green-600" />,
+  fail: <X className="w-4 h-4 text-red-600" />,
+  skipped: <Minus className="w-4 h-4 text-muted-foreground" />,
+};
+
+const TEXTAREA_CLASS = 'w-full h-24 p-2 text-xs font-mono border rounded-md bg-muted/50 resize-none';
+
+/** Parse pasted hex; null when it isn't hex. Accepts spaces, newlines and a 0x prefix. */
+function parseHexInput(text: string): Uint8Array | null {
+  const clean = text.replace(/\s|0x/gi, '');
+  if (!clean || clean.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(clean)) return null;
+  return fromHex(clean);
+}
+
+export default function InspectPage() {
+  const { licensePublicKey } = useSettings();
+  const canEditKey = useHasRole('admin');
+  const { uuidLength, licenseLength } = useDeviceProfile();
+  const [licenseHex, setLicenseHex] = useState('');
+  const [uuidHex, setUuidHex] = useState('');
+  const [ledgerPrefix, setLedgerPrefix] = useState('');
+  const [ledgerMatches, setLedgerMatches] = useState<LedgerEntry[] | null>(null);
+  const [inspection, setInspection] = useState<LicenseInspection | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    // Raw dumps of the profile's license length as-is; anything else is read as hex text
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    setLicenseHex(bytes.length === licenseLength ? toHex(bytes) : new TextDecoder().decode(bytes).trim());
+    setInspection(null);
+  };
+
+  const handleLedgerSearch = async () => {
+    try {
+      const entries = await listLedgerEntries({ uuidPrefix: ledgerPrefix.trim() || undefined });
+      setLedgerMatches(entries.filter(entry => entry.license).slice(0, 20));
+    } catch (e) {
+      toast.error('Failed to read history: ' + (e as Error).message);
+    }
+  };
+
+  const handleLoadEntry = (entry: LedgerEntry) => {
+    setLicenseHex(entry.license ?? '');
+    setUuidHex(entry.uuid ?? '');
+    setLedgerMatches(null);
+    setInspection(null);
+  };
+
+  const handleInspect = async () => {
+    const license = parseHexInput(licenseHex);
+    if (!license) {
+      toast.error('License is not valid hex');
+      return;
+    }
+    const uuid = uuidHex.trim() ? parseHexInput(uuidHex) : null;
+    if (uuidHex.trim() && !uuid) {
+      toast.error('UUID is not valid hex');
+      return;
+    }
+    setInspection(await inspectLicense(license, uuid, resolvePublicKey(licensePublicKey), licenseLength));
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">License Inspector</h1>
+          <p className="text-muted-foreground">
+            Decodes a license and checks it against a UUID and the signing key, the way the target firmware does.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">License</CardTitle>
+              <CardDescription>Paste hex, load a file, or pick a license from the provisioning history.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <textarea
+                className={TEXTAREA_CLASS}
+                placeholder={`${licenseLength} bytes of hex`}
+                value={licenseHex}
+                onChange={e => setLicenseHex(e.target.value)}
+              />
+              <Input type="file" onChange={handleFile} />
+              <div className="flex gap-2">
+                <Input
+                  placeholder="UUID prefix (hex)"
+                  className="font-mono"
+                  value={ledgerPrefix}
+                  onChange={e => setLedgerPrefix(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleLedgerSearch}>
+                  <Search className="w-4 h-4 mr-1" /> History
+                </Button>
+              </div>
+              {ledgerMatches && (
+                <div className="rounded-md border max-h-40 overflow-y-auto text-xs">
+                  {ledgerMatches.length === 0 ? (
+                    <div className="p-2 text-muted-foreground italic">No issued licenses found.</div>
+                  ) : ledgerMatches.map(entry => (
+                    <button
+                      key={entry.id}
+                      className="w-full text-left p-2 border-b last:border-b-0 hover:bg-muted/50"
+                      onClick={() => handleLoadEntry(entry)}
+                    >
+                      <span className="font-mono">{entry.uuid?.slice(0, 16)}…</span>
+                      <span className="text-muted-foreground ml-2">{new Date(entry.timestamp).toLocaleString()}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Target and Key</CardTitle>
+              <CardDescription>
+                Leave the UUID empty to skip the binding check. The key is also the one licenses are checked
+                against before they are written{bundledPublicKey() && '; leave it empty to use the bundled key'}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label>Target UUID</Label>
+                <textarea
+                  className={TEXTAREA_CLASS}
+                  placeholder={`${uuidLength} bytes of hex`}
+                  value={uuidHex}
+                  onChange={e => setUuidHex(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label>Signing public key</Label>
+                  {canEditKey && DEFAULT_TRANSPORT === 'simulator' && (
+                    <button
+                      className="text-xs text-muted-foreground hover:text-foreground"
+                      onClick={() => updateSettings({ licensePublicKey: SIMULATOR_PUBLIC_KEY })}
+                    >
+                      Use simulator key
+                    </button>
+                  )}
+                </div>
+                <textarea
+                  className={TEXTAREA_CLASS}
+                  placeholder="-----BEGIN PUBLIC KEY----- … or 04… (65 bytes hex)"
+                  value={licensePublicKey}
+                  readOnly={!canEditKey}
+                  title={canEditKey ? undefined : 'Only an administrator can change the key'}
+                  onChange={e => updateSettings({ licensePublicKey: e.target.value })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Button onClick={handleInspect} disabled={!licenseHex.trim()}>
+          Inspect License
+        </Button>
+
+        {inspection && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Result</CardTitle>
+                <Badge variant={VERDICT[inspection.verdict].variant}>{VERDICT[inspection.verdict].label}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                {inspection.checks.map(c => (
+                  <div key={c.id} className="flex items-center gap-2 text-sm">
+                    {CHECK_ICON[c.status]}
+                    <span className="font-medium w-32">{c.label}</span>
+                    <span className="text-muted-foreground">{c.detail}</span>
+                  </div>
+                ))}
+              </div>
+
+              {inspection.decoded && (
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50 text-muted-foreground">
+                      <tr>
+                        <th className="p-2 text-left">Offset</th>
+                        <th className="p-2 text-left">Field</th>
+                        <th className="p-2 text-left">Value</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {decodedRows(inspection).map(([field, value]) => (
+                        <tr key={field} className="border-t align-top">
+                          <td className="p-2 font-mono">0x{LICENSE_FIELDS[field].offset.toString(16).padStart(2, '0')}</td>
+                          <td className="p-2">{FIELD_LABELS[field]}</td>
+                          <td className="p-2 font-mono break-all">{value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
+
+const FIELD_LABELS: Record<LicenseField, string> = {
+  MAGIC: 'Header',
+  VERSION: 'Version',
+  KEY_ID: 'Key ID',
+  FLAGS: 'Flags',
+  ISSUED_AT: 'Issued at',
+  SEQUENCE: 'Sequence',
+  UUID_BINDING: 'UUID binding (SHA-256)',
+  FEATURES: 'Feature block',
+  SIGNATURE: 'Signature (r || s)',
+};
+
+function decodedRows(inspection: LicenseInspection): [LicenseField, string][] {
+  const d = inspection.decoded!;
+  return [
+    ['MAGIC', `${toHex(d.magic)} (${new TextDecoder().decode(d.magic).replace(/[^\x20-\x7e]/g, '.')})`],
+    ['VERSION', String(d.version)],
+    ['KEY_ID', `0x${d.keyId.toString(16).padStart(2, '0')}`],
+    ['FLAGS', `0x${d.flags.toString(16).padStart(4, '0')}`],
+    ['ISSUED_AT', d.issuedAt.toISOString()],
+    ['SEQUENCE', String(d.sequence)],
+    ['UUID_BINDING', toHex(d.uuidBinding)],
+    ['FEATURES', d.features.every(b => b === 0) ? '(empty)' : toHex(d.features)],
+    ['SIGNATURE', toHex(d.signature)],
+  ];
+}
@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Toaster } from "@/components/ui/sonner";
+import { OperatorGate } from "@/components/operator-gate";
+import { VaultGate } from "@/components/vault-gate";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -28,7 +30,9 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <OperatorGate>
+          <VaultGate>{children}</VaultGate>
+        </OperatorGate>
         <Toaster />
         <footer className="fixed bottom-2 right-2 text-xs text-muted-foreground/50 font-mono">
           {process.env.NEXT_PUBLIC_COMMIT_HASH && (
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  OPERATOR_ROLES,
+  OperatorAccount,
+  OperatorRole,
+  changePin,
+  createOperator,
+  deleteOperator,
+  listOperators,
+  validatePin,
+} from '@/lib/operators/accounts';
+import { signOut, useOperatorSession } from '@/lib/operators/session';
+import { useSettings, updateSettings } from '@/lib/settings';
+import { KeyRound, Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+
+const ROLE_DESCRIPTION: Record<OperatorRole, string> = {
+  operator: 'Automated process, licensing station, history and credits',
+  engineer: 'Also the manual flow with raw reports, bulk generation, inspector and replay',
+  admin: 'Also device profiles, the license key, ledger deletion, operator accounts and storage encryption',
+};
+
+export default function OperatorsPage() {
+  const session = useOperatorSession();
+  const { lockAfterMinutes } = useSettings();
+  const [accounts, setAccounts] = useState<OperatorAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<OperatorRole>('operator');
+  const [pin, setPin] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setAccounts(await listOperators());
+    } catch (e) {
+      const error = e as Error;
+      toast.error('Failed to load operators: ' + error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const account = await createOperator(name, role, pin);
+      toast.success(`Added ${account.name} (${account.role})`);
+      setName('');
+      setPin('');
+      await load();
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleResetPin = async (account: OperatorAccount) => {
+    const pin = window.prompt(`New PIN for ${account.name} (4-12 digits)`);
+    if (pin === null) return;
+    try {
+      validatePin(pin);
+      await changePin(account, pin);
+      toast.success(`PIN of ${account.name} changed`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (account: OperatorAccount) => {
+    if (!window.confirm(`Delete operator "${account.name}"? Their ledger entries keep the name.`)) return;
+    try {
+      await deleteOperator(account);
+      if (account.id === session?.operatorId) {
+        signOut();
+        return;
+      }
+      await load();
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleTimeoutChange = (text: string) => {
+    const value = parseInt(text, 10);
+    if (Number.isInteger(value) && value >= 1) {
+      updateSettings({ lockAfterMinutes: value });
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Operators</h1>
+          <p className="text-muted-foreground">
+            Who may sign in on this workstation and what they may do. PINs are stored only as salted hashes.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center gap-2">
+            <Label htmlFor="lock-after">Lock the session after</Label>
+            <Input
+              id="lock-after"
+              type="number"
+              min={1}
+              className="w-20"
+              value={lockAfterMinutes}
+              onChange={e => handleTimeoutChange(e.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">minutes without activity</span>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add Operator</CardTitle>
+            <CardDescription>{ROLE_DESCRIPTION[role]}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="new-name">Name</Label>
+                <Input id="new-name" value={name} onChange={e => setName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="new-role">Role</Label>
+                <select
+                  id="new-role"
+                  className="border-input h-9 rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                  value={role}
+                  onChange={e => setRole(e.target.value as OperatorRole)}
+                >
+                  {OPERATOR_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="new-pin">PIN</Label>
+                <Input
+                  id="new-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={pin}
+                  onChange={e => setPin(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={isBusy || !name.trim() || !pin}>
+                <UserPlus className="w-4 h-4 mr-1" /> Add
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Accounts</CardTitle>
+            <CardDescription>{isLoading ? 'Loading...' : `${accounts.length} operators`}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/50 text-muted-foreground">
+                  <tr>
+                    <th className="p-2 text-left">Name</th>
+                    <th className="p-2 text-left">Role</th>
+                    <th className="p-2 text-left">Created</th>
+                    <th className="p-2 w-20" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map(account => (
+                    <tr key={account.id} className="border-t">
+                      <td className="p-2">
+                        {account.name}
+                        {account.id === session?.operatorId && <Badge variant="outline" className="ml-1">you</Badge>}
+                      </td>
+                      <td className="p-2">
+                        <Badge variant={account.role === 'admin' ? 'default' : 'secondary'}>{account.role}</Badge>
+                      </td>
+                      <td className="p-2 whitespace-nowrap">{new Date(account.createdAt).toLocaleString()}</td>
+                      <td className="p-2 text-right whitespace-nowrap">
+                        <Button size="icon-sm" variant="ghost" title="Change PIN" onClick={() => handleResetPin(account)}>
+                          <KeyRound className="w-3 h-3" />
+                        </Button>
+                        <Button size="icon-sm" variant="ghost" title="Delete" onClick={() => handleDelete(account)}>
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
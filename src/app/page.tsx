@@ -5,8 +5,12 @@ import { DebugConsole } from "@/components/debug-console";
 import { LicenseFlow } from "@/components/license-flow";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { useHasRole } from "@/lib/operators/session";
 
 export default function Home() {
+  const isEngineer = useHasRole("engineer");
+  const isAdmin = useHasRole("admin");
+
   return (
     <HIDProvider>
         <main className="min-h-screen bg-background flex flex-col font-sans">
@@ -17,16 +21,84 @@ export default function Home() {
                  Offline license generation for Target Devices via STM32 Dongle.
                </p>
                
-               <div className="flex gap-2 justify-center">
+               <div className="flex flex-wrap gap-2 justify-center">
                  <Link href="/auto-license">
                    <Button variant="outline">
                      Go to Automated Process →
                    </Button>
                  </Link>
+                 <Link href="/station">
+                   <Button variant="outline">
+                     Licensing Station
+                   </Button>
+                 </Link>
+                 {isEngineer && (
+                   <Link href="/bulk">
+                     <Button variant="outline">
+                       Bulk Generation
+                     </Button>
+                   </Link>
+                 )}
+                 <Link href="/history">
+                   <Button variant="outline">
+                     Provisioning History
+                   </Button>
+                 </Link>
+                 <Link href="/credits">
+                   <Button variant="outline">
+                     Dongle Credits
+                   </Button>
+                 </Link>
+                 <Link href="/audit">
+                   <Button variant="outline">
+                     Audit Log
+                   </Button>
+                 </Link>
+                 {isEngineer && (
+                   <Link href="/inspect">
+                     <Button variant="outline">
+                       License Inspector
+                     </Button>
+                   </Link>
+                 )}
+                 {isEngineer && (
+                   <Link href="/replay">
+                     <Button variant="outline">
+                       Session Replay
+                     </Button>
+                   </Link>
+                 )}
+                 {isAdmin && (
+                   <Link href="/profiles">
+                     <Button variant="outline">
+                       Device Profiles
+                     </Button>
+                   </Link>
+                 )}
+                 {isAdmin && (
+                   <Link href="/operators">
+                     <Button variant="outline">
+                       Operators
+                     </Button>
+                   </Link>
+                 )}
+                 {isAdmin && (
+                   <Link href="/storage">
+                     <Button variant="outline">
+                       Encrypted Storage
+                     </Button>
+                   </Link>
+                 )}
                </div>
              </header>
 
-             <LicenseFlow />
+             {isEngineer ? (
+               <LicenseFlow />
+             ) : (
+               <p className="text-center text-sm text-muted-foreground">
+                 The manual flow needs the engineer role. Use the automated process or the licensing station.
+               </p>
+             )}
           </div>
 
           <DebugConsole />
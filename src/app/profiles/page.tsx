@@ -0,0 +1,148 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  BUILTIN_PROFILES,
+  DeviceProfile,
+  availableProfiles,
+  exportProfile,
+  parseProfile,
+} from '@/lib/hid/profiles';
+import { useSettings, updateSettings, useDeviceProfile } from '@/lib/settings';
+import { downloadFile } from '@/lib/utils';
+import { Download, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+function hex(value: number, digits: number): string {
+  return `0x${value.toString(16).padStart(digits, '0')}`;
+}
+
+function profileRows(profile: DeviceProfile): [string, string][] {
+  const { dongle, target } = profile;
+  return [
+    ['Dongle VID / PID', `${hex(dongle.vendorId, 4)} / ${hex(dongle.productId, 4)}`],
+    ['Dongle usage page', dongle.usagePage === null ? 'any' : hex(dongle.usagePage, 4)],
+    ['Dongle reports', `license ${hex(dongle.reportIds.licenseOut, 2)} → ${hex(dongle.reportIds.licenseIn, 2)}, counter ${hex(dongle.reportIds.counterOut, 2)} → ${hex(dongle.reportIds.counterIn, 2)}`],
+    ['Target VID / PID', `${hex(target.vendorId, 4)} / ${hex(target.productId, 4)}`],
+    ['Target usage page', target.usagePage === null ? 'any' : hex(target.usagePage, 4)],
+    ['Target reports', `UUID ${hex(target.reportIds.uuidRequest, 2)} → ${hex(target.reportIds.uuidResponse, 2)}, store ${hex(target.reportIds.storeLicense, 2)} → ${hex(target.reportIds.storeLicenseAck, 2)}, readback ${hex(target.reportIds.readLicenseRequest, 2)} → ${hex(target.reportIds.readLicenseResponse, 2)}`],
+    ['UUID / license', `${profile.uuidLength} / ${profile.licenseLength} bytes`],
+    ['Framing', `${profile.reportSize}-byte reports, ${profile.chunkSize ?? 'full'} data bytes per packet${profile.sequence ? ', sequence byte' : ''}`],
+  ];
+}
+
+export default function ProfilesPage() {
+  const { customProfiles } = useSettings();
+  const active = useDeviceProfile();
+  const profiles = availableProfiles(customProfiles);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let profile: DeviceProfile;
+    try {
+      profile = parseProfile(await file.text());
+    } catch (err) {
+      toast.error('Failed to import profile: ' + (err as Error).message);
+      return;
+    }
+    if (BUILTIN_PROFILES.some(p => p.id === profile.id)) {
+      toast.error(`"${profile.id}" is a built-in profile; give the imported one another ID`);
+      return;
+    }
+
+    const replaced = customProfiles.some(p => p.id === profile.id);
+    updateSettings({ customProfiles: [...customProfiles.filter(p => p.id !== profile.id), profile] });
+    toast.success(replaced ? `Updated profile "${profile.name}"` : `Imported profile "${profile.name}"`);
+  };
+
+  const handleDelete = (profile: DeviceProfile) => {
+    if (!window.confirm(`Delete profile "${profile.name}"?`)) return;
+    updateSettings({ customProfiles: customProfiles.filter(p => p.id !== profile.id) });
+  };
+
+  const handleExport = (profile: DeviceProfile) => {
+    downloadFile(`${profile.id}.profile.json`, exportProfile(profile), 'application/json');
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Device Profiles</h1>
+          <p className="text-muted-foreground">
+            USB IDs, report IDs and payload sizes of each product variant. Every screen talks to devices through the active profile.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/auto-license" className="text-muted-foreground hover:text-primary hover:underline">Automated Process</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6 space-y-1">
+            <Label htmlFor="profile-import">Import a profile (JSON)</Label>
+            <Input id="profile-import" type="file" accept=".json,application/json" onChange={handleImport} />
+            <p className="text-xs text-muted-foreground">
+              Importing a profile with an existing ID replaces it. Export a built-in profile for a template.
+            </p>
+          </CardContent>
+        </Card>
+
+        {profiles.map(profile => {
+          const isActive = profile.id === active.id;
+          const isBuiltin = BUILTIN_PROFILES.includes(profile);
+          return (
+            <Card key={profile.id} className={isActive ? 'border-primary' : undefined}>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {profile.name}
+                    {isActive && <Badge>active</Badge>}
+                    {isBuiltin && <Badge variant="secondary">built-in</Badge>}
+                  </CardTitle>
+                  <div className="flex gap-2">
+                    {!isActive && (
+                      <Button size="sm" onClick={() => updateSettings({ deviceProfileId: profile.id })}>
+                        Use
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" onClick={() => handleExport(profile)}>
+                      <Download className="w-3 h-3 mr-1" /> Export
+                    </Button>
+                    {!isBuiltin && (
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(profile)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <CardDescription className="font-mono">{profile.id}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-xs">
+                  <tbody>
+                    {profileRows(profile).map(([label, value]) => (
+                      <tr key={label} className="border-t align-top">
+                        <td className="p-2 text-muted-foreground w-40">{label}</td>
+                        <td className="p-2 font-mono">{value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
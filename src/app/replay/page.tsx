@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RecordedSession, parseSession } from '@/lib/logs/capture';
+import { ReplayResult, replayLicenseProcess } from '@/lib/provisioning/replay';
+import { LogEntry } from '@/lib/hid/types';
+import { describeError } from '@/lib/hid/errors';
+import { useDeviceProfile } from '@/lib/settings';
+import { toHex } from '@/lib/utils';
+import { PlayCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function ReplayPage() {
+  const profile = useDeviceProfile();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [session, setSession] = useState<RecordedSession | null>(null);
+  const [result, setResult] = useState<ReplayResult | null>(null);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setResult(null);
+    setLogs([]);
+    try {
+      setSession(parseSession(new Uint8Array(await file.arrayBuffer())));
+      setFileName(file.name);
+    } catch (err) {
+      setSession(null);
+      setFileName(null);
+      toast.error('Failed to read capture: ' + (err as Error).message);
+    }
+  };
+
+  const handleReplay = async () => {
+    if (!session) return;
+
+    setIsReplaying(true);
+    setResult(null);
+    const collected: LogEntry[] = [];
+    try {
+      setResult(await replayLicenseProcess(session, entry => collected.push(entry), profile));
+    } finally {
+      setLogs(collected);
+      setIsReplaying(false);
+    }
+  };
+
+  const outcome = result?.error ? describeError(result.error) : null;
+  const unconsumed = result ? Object.values(result.unconsumed).reduce((sum, n) => sum + n, 0) : 0;
+  const isFaithful = result && !result.error && result.divergences.length === 0 && unconsumed === 0;
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-5xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Session Replay</h1>
+          <p className="text-muted-foreground">
+            Runs the license process against a recorded session and flags every report that differs from the capture.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/history" className="text-muted-foreground hover:text-primary hover:underline">Provisioning History</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Capture</CardTitle>
+            <CardDescription>
+              A PCAPNG or JSON export from the debug console, replayed with the {profile.name} profile.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="capture-file">Session file</Label>
+              <Input id="capture-file" type="file" accept=".pcapng,.json" onChange={handleFile} />
+            </div>
+
+            {session && (
+              <div className="text-sm text-muted-foreground space-y-1">
+                <div>
+                  <span className="font-medium text-foreground">{fileName}</span>: {session.packets.length} packets
+                </div>
+                {session.metadata && (
+                  <div>
+                    Recorded {new Date(session.metadata.exportedAt).toLocaleString()} on {session.metadata.transport},
+                    build {session.metadata.commit}
+                    {session.metadata.operator && `, by ${session.metadata.operator}`}
+                  </div>
+                )}
+              </div>
+            )}
+
+            <Button onClick={handleReplay} disabled={!session || isReplaying}>
+              {isReplaying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PlayCircle className="w-4 h-4 mr-2" />}
+              Replay
+            </Button>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Result</CardTitle>
+                <Badge variant={isFaithful ? 'default' : 'destructive'}>
+                  {isFaithful ? 'Matches capture' : 'Diverged'}
+                </Badge>
+              </div>
+              <CardDescription>
+                {outcome ? `Process failed: ${outcome.title}` : 'Process completed'}
+                {result.data.uuid && <> for UUID <span className="font-mono">{toHex(result.data.uuid)}</span></>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {outcome?.hint && <div className="text-sm text-muted-foreground">{outcome.hint}</div>}
+
+              <div className="text-sm text-muted-foreground">
+                Unreplayed packets: {Object.entries(result.unconsumed).map(([device, n]) => `${device} ${n}`).join(', ')}
+              </div>
+
+              {result.divergences.length > 0 && (
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-muted/50 text-muted-foreground">
+                      <tr>
+                        <th className="p-2 text-left">Device</th>
+                        <th className="p-2 text-left">Kind</th>
+                        <th className="p-2 text-left">Detail</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.divergences.map((d, i) => (
+                        <tr key={i} className="border-t">
+                          <td className="p-2">{d.device}</td>
+                          <td className="p-2">{d.kind}</td>
+                          <td className="p-2 font-mono">{d.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {logs.length > 0 && (
+                <div className="rounded-md border bg-muted/30 p-2 max-h-64 overflow-y-auto font-mono text-xs space-y-0.5">
+                  {logs.map((log, i) => (
+                    <div key={i} className={log.type === 'error' ? 'text-red-600' : ''}>
+                      [{log.type.toUpperCase()}] {log.device && `[${log.device}] `}{log.message}
+                      {log.data && <span className="text-muted-foreground"> {log.data}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { HIDProvider } from "@/lib/hid/hid-context";
+import StationPage from "./page";
+
+export default function StationLayout() {
+  return (
+    <HIDProvider>
+      <StationPage />
+    </HIDProvider>
+  );
+}
@@ -0,0 +1,328 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useHID } from '@/lib/hid/hid-context';
+import { TargetDeviceClient } from '@/lib/hid/hid-client';
+import { PooledDevice, deviceLabel } from '@/lib/hid/device-pool';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { DebugConsole } from '@/components/debug-console';
+import { DonglePoolCard } from '@/components/dongle-pool';
+import { StationTile } from '@/components/station-tile';
+import { runLicenseProcess, emptyProcessData } from '@/lib/provisioning/license-process';
+import { BatchUnitResult, tallyBatch, decideUnattended } from '@/lib/provisioning/batch';
+import { StationUnitState, idleStationUnit } from '@/lib/provisioning/station';
+import { auditLicense, recordLicenseAttempt, failureOutcome } from '@/lib/ledger/ledger';
+import { describeError } from '@/lib/hid/errors';
+import { toastError, toastCreditAnomaly } from '@/lib/notify';
+import { writeGateKey } from '@/lib/license/signature';
+import { useSettings } from '@/lib/settings';
+import { licenseCheckSkipped } from '@/lib/operators/session';
+import { toHex } from '@/lib/utils';
+import { Usb, Plus, PlayCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type StationTarget = PooledDevice<TargetDeviceClient>;
+
+export default function StationPage() {
+  const { dongles, targets, simulator } = useHID();
+  const { verifyMode, licensePublicKey } = useSettings();
+  const [autoStart, setAutoStart] = useState(true);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [units, setUnits] = useState<Record<string, StationUnitState>>({});
+  const [results, setResults] = useState<BatchUnitResult[]>([]);
+
+  // Refs so concurrent pipelines see current values, not stale closures
+  const startedRef = useRef<Set<string>>(new Set());
+  const licensedUuidsRef = useRef<Set<string>>(new Set());
+  // UUIDs a pipeline is working on: the same unit in two slots is licensed once
+  const inFlightUuidsRef = useRef<Set<string>>(new Set());
+  const unitIndexRef = useRef(0);
+
+  const tally = tallyBatch(results);
+  const runningCount = targets.entries.filter(entry => units[entry.id]?.status === 'running').length;
+
+  const updateUnit = (id: string, patch: Partial<StationUnitState>) => {
+    setUnits(prev => ({ ...prev, [id]: { ...(prev[id] ?? idleStationUnit()), ...patch } }));
+  };
+
+  // One pipeline per target. Pipelines run concurrently; the dongle lock
+  // inside runLicenseProcess serializes only the generate exchange.
+  const licenseUnit = async (entry: StationTarget) => {
+    startedRef.current.add(entry.id);
+
+    const dongle = dongles.pool.select();
+    if (!dongle) {
+      updateUnit(entry.id, { status: 'failed', error: 'No dongle has credits left' });
+      return;
+    }
+
+    const index = ++unitIndexRef.current;
+    const data = emptyProcessData();
+    updateUnit(entry.id, { ...idleStationUnit(), status: 'running' });
+
+    let result: BatchUnitResult;
+    let failure: unknown = null;
+    let claimedUuid: string | null = null;
+    try {
+      await runLicenseProcess(dongle.client, entry.client, data, {
+        onStep: step => updateUnit(entry.id, { step }),
+        onData: d => updateUnit(entry.id, { uuidHex: d.uuid ? toHex(d.uuid) : null }),
+        checkUUID: uuid => {
+          // Claimed before anything is awaited, so two slots cannot both pass
+          const uuidHex = toHex(uuid);
+          if (inFlightUuidsRef.current.has(uuidHex)) {
+            return { action: 'skip', reason: 'Already being licensed in another slot' };
+          }
+          inFlightUuidsRef.current.add(uuidHex);
+          claimedUuid = uuidHex;
+          return decideUnattended(uuid, licensedUuidsRef.current, forceRegenerate);
+        },
+        nextDongle: exhausted => dongles.pool.select(exhausted)?.client ?? null,
+        onFailover: (from, to) => {
+          toast.warning(`${deviceLabel(from)} is out of credits. Switched to ${deviceLabel(to)}.`);
+        },
+        auditLicense: d => auditLicense('station', d),
+        verifyMode,
+        licenseKey: writeGateKey(licensePublicKey, licenseCheckSkipped()),
+        onCreditAnomaly: toastCreditAnomaly,
+      });
+
+      const uuidHex = data.uuid ? toHex(data.uuid) : null;
+      if (data.skipReason) {
+        result = { index, uuidHex, status: 'skipped', counterAfter: data.counterAfter, reusedLicense: false, error: data.skipReason, timestamp: Date.now() };
+      } else {
+        if (uuidHex) licensedUuidsRef.current.add(uuidHex);
+        result = { index, uuidHex, status: 'licensed', counterAfter: data.counterAfter, reusedLicense: data.reusedLicense, error: null, timestamp: Date.now() };
+      }
+    } catch (e) {
+      result = {
+        index,
+        uuidHex: data.uuid ? toHex(data.uuid) : null,
+        status: 'failed',
+        counterAfter: data.counterAfter,
+        reusedLicense: data.reusedLicense,
+        error: describeError(e).title,
+        timestamp: Date.now(),
+      };
+      failure = e;
+      console.error(`Station unit ${deviceLabel(entry)} error:`, e);
+    } finally {
+      if (claimedUuid) inFlightUuidsRef.current.delete(claimedUuid);
+    }
+
+    try {
+      await recordLicenseAttempt(
+        'station',
+        data,
+        result.status === 'licensed' ? 'success' : result.status === 'failed' ? failureOutcome(failure) : result.status,
+        result.error
+      );
+    } catch (e) {
+      toastError(`${deviceLabel(entry)} not recorded in the provisioning history`, e);
+    }
+
+    updateUnit(entry.id, {
+      status: result.status,
+      step: 'idle',
+      reusedLicense: result.reusedLicense,
+      error: result.error,
+    });
+    setResults(prev => [...prev, result]);
+  };
+
+  // Newly attached targets are licensed right away in auto mode
+  useEffect(() => {
+    if (!autoStart || dongles.entries.length === 0) return;
+    for (const entry of targets.entries) {
+      if (!startedRef.current.has(entry.id)) {
+        licenseUnit(entry);
+      }
+    }
+  }, [autoStart, targets.entries, dongles.entries.length]);
+
+  const handleLicenseAll = () => {
+    for (const entry of targets.entries) {
+      if (units[entry.id]?.status !== 'running') {
+        licenseUnit(entry);
+      }
+    }
+  };
+
+  const handleAddTarget = async () => {
+    try {
+      await targets.add();
+    } catch (e) {
+      toastError('Failed to connect Target Device', e);
+    }
+  };
+
+  const handlePlugSimulatedUnit = () => {
+    const unit = simulator?.targets.find(t => !t.isPlugged);
+    if (!unit) {
+      toast.info('All simulated slots are in use');
+      return;
+    }
+    unit.replaceUnit();
+    unit.plug();
+  };
+
+  const handleUnplugSimulatedUnit = (entry: StationTarget) => {
+    simulator?.targets.find(t => t === entry.transport)?.unplug();
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-6xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Licensing Station</h1>
+          <p className="text-muted-foreground">
+            Licenses every attached target in parallel. Dongle access is shared one unit at a time.
+          </p>
+          <Link href="/history" className="text-sm text-muted-foreground hover:text-primary hover:underline">
+            View provisioning history →
+          </Link>
+        </header>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <DonglePoolCard disabled={runningCount > 0} />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Station</CardTitle>
+              <CardDescription>
+                {targets.entries.length} targets attached, {runningCount} in progress
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-green-600">{tally.licensed}</div>
+                  <div className="text-xs text-muted-foreground">Licensed</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-red-600">{tally.failed}</div>
+                  <div className="text-xs text-muted-foreground">Failed</div>
+                </div>
+                <div className="rounded-md border p-2">
+                  <div className="text-2xl font-bold text-muted-foreground">{tally.skipped}</div>
+                  <div className="text-xs text-muted-foreground">Skipped</div>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  id="auto-start"
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={autoStart}
+                  onChange={e => setAutoStart(e.target.checked)}
+                />
+                <Label htmlFor="auto-start" className="text-sm font-normal">
+                  License targets as soon as they are attached
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  id="station-force-regenerate"
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={forceRegenerate}
+                  onChange={e => setForceRegenerate(e.target.checked)}
+                />
+                <Label htmlFor="station-force-regenerate" className="text-sm font-normal">
+                  Force regeneration (ignore previously issued licenses)
+                </Label>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={handleAddTarget}>
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add Target
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={targets.entries.length === 0 || dongles.totalCredits <= 0}
+                  onClick={handleLicenseAll}
+                >
+                  <PlayCircle className="w-3 h-3 mr-1" />
+                  License All
+                </Button>
+                {simulator && (
+                  <Button size="sm" variant="outline" onClick={handlePlugSimulatedUnit}>
+                    <Usb className="w-3 h-3 mr-1" />
+                    Plug In Simulated Unit
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {targets.entries.length === 0 ? (
+          <Alert>
+            {targets.isWaiting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Usb className="h-4 w-4" />}
+            <AlertTitle>No targets attached</AlertTitle>
+            <AlertDescription>
+              Plug targets into the hub. Units granted before are picked up automatically; new ones need Add Target.
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {targets.entries.map(entry => (
+              <StationTile
+                key={entry.id}
+                label={deviceLabel(entry)}
+                state={units[entry.id] ?? idleStationUnit()}
+                onLicense={() => licenseUnit(entry)}
+                onUnplug={simulator ? () => handleUnplugSimulatedUnit(entry) : undefined}
+              />
+            ))}
+          </div>
+        )}
+
+        {results.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Results</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/50 text-muted-foreground sticky top-0">
+                    <tr>
+                      <th className="p-2 text-left">#</th>
+                      <th className="p-2 text-left">UUID</th>
+                      <th className="p-2 text-left">Status</th>
+                      <th className="p-2 text-right">Counter</th>
+                      <th className="p-2 text-left">Note</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...results].reverse().map(unit => (
+                      <tr key={unit.index} className="border-t">
+                        <td className="p-2">{unit.index}</td>
+                        <td className="p-2 font-mono">{unit.uuidHex ? `${unit.uuidHex.slice(0, 16)}…` : '—'}</td>
+                        <td className="p-2">{unit.status}</td>
+                        <td className="p-2 text-right">{unit.counterAfter ?? '—'}</td>
+                        <td className="p-2 text-muted-foreground">
+                          {unit.error ?? (unit.reusedLicense ? 'Stored license re-written' : '')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <DebugConsole />
+    </main>
+  );
+}
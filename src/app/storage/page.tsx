@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { changeVaultPassphrase, exportVaultBackup, lockVault, restoreVaultBackup } from '@/lib/storage/vault';
+import { downloadFile } from '@/lib/utils';
+import { Download, Lock, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+export default function StoragePage() {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isChanging, setIsChanging] = useState(false);
+
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (next !== confirm) {
+      toast.error('The new passphrases do not match');
+      return;
+    }
+    setIsChanging(true);
+    try {
+      await changeVaultPassphrase(current, next);
+      setCurrent('');
+      setNext('');
+      setConfirm('');
+      toast.success('Passphrase changed; every record was re-encrypted');
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    try {
+      const backup = await exportVaultBackup();
+      downloadFile(`oro-backup-${backup.createdAt.slice(0, 19).replace(/:/g, '-')}.json`, JSON.stringify(backup), 'application/json');
+    } catch (err) {
+      toast.error('Failed to create backup: ' + (err as Error).message);
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!backupFile) return;
+    setIsRestoring(true);
+    try {
+      const count = await restoreVaultBackup(await backupFile.text(), backupPassphrase);
+      setBackupPassphrase('');
+      toast.success(`Restored ${count} records from ${backupFile.name}`);
+    } catch (err) {
+      toast.error((err as Error).message);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-background flex flex-col font-sans">
+      <div className="flex-1 container mx-auto p-4 md:p-8 max-w-3xl space-y-6">
+        <header className="space-y-2">
+          <h1 className="text-2xl font-bold tracking-tight">Encrypted Storage</h1>
+          <p className="text-muted-foreground">
+            UUIDs and licenses in the provisioning history and bulk jobs are encrypted with AES-GCM under a key derived from the storage passphrase.
+          </p>
+          <div className="flex gap-4 text-sm">
+            <Link href="/" className="text-muted-foreground hover:text-primary hover:underline">← Manual Flow</Link>
+            <Link href="/operators" className="text-muted-foreground hover:text-primary hover:underline">Operators</Link>
+          </div>
+        </header>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Storage is unlocked until this tab reloads or the operator signs out. Locking stops any run on another page.
+            </p>
+            <Button variant="outline" onClick={lockVault}>
+              <Lock className="w-4 h-4 mr-1" /> Lock Now
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Change Passphrase</CardTitle>
+            <CardDescription>Every stored record is re-encrypted under the new passphrase in one step.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChange} className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="current-passphrase">Current passphrase</Label>
+                <Input id="current-passphrase" type="password" autoComplete="off" value={current} onChange={e => setCurrent(e.target.value)} />
+              </div>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="new-passphrase">New passphrase (10+ characters)</Label>
+                  <Input id="new-passphrase" type="password" autoComplete="off" value={next} onChange={e => setNext(e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="confirm-passphrase">Repeat new passphrase</Label>
+                  <Input id="confirm-passphrase" type="password" autoComplete="off" value={confirm} onChange={e => setConfirm(e.target.value)} />
+                </div>
+              </div>
+              <Button type="submit" disabled={isChanging || !current || !next}>
+                {isChanging ? 'Re-encrypting...' : 'Change Passphrase'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Backup</CardTitle>
+            <CardDescription>
+              An encrypted file with the history and bulk jobs. Restoring it needs the passphrase that was current when it was made; keep a note of which one.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Button variant="outline" onClick={handleBackup}>
+              <Download className="w-4 h-4 mr-1" /> Download Encrypted Backup
+            </Button>
+
+            <form onSubmit={handleRestore} className="space-y-3">
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="space-y-1">
+                  <Label htmlFor="backup-file">Restore from backup</Label>
+                  <Input
+                    id="backup-file"
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={e => setBackupFile(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="backup-passphrase">Passphrase of the backup</Label>
+                  <Input
+                    id="backup-passphrase"
+                    type="password"
+                    autoComplete="off"
+                    value={backupPassphrase}
+                    onChange={e => setBackupPassphrase(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Restored records are merged into this workstation&apos;s history; records with the same ID are replaced, nothing is removed.
+              </p>
+              <Button type="submit" disabled={isRestoring || !backupFile || !backupPassphrase}>
+                <Upload className="w-4 h-4 mr-1" /> {isRestoring ? 'Restoring...' : 'Restore'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,259 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { TargetDeviceClient } from '@/lib/hid/hid-client';
+import { DonglePool } from '@/lib/hid/dongle-pool';
+import { deviceLabel } from '@/lib/hid/device-pool';
+import { CounterExhaustedError, DeviceNotFoundError } from '@/lib/hid/errors';
+import { DeviceProfile } from '@/lib/hid/profiles';
+import { HIDTransportFactory } from '@/lib/hid/transport';
+import { LicenseVerifyMode, LogEntry } from '@/lib/hid/types';
+import { assertLicenseAccepted } from '@/lib/license/inspect';
+import { AuditBundle, verifyAuditBundle } from '@/lib/audit/verify';
+import { LicenseProcessData, emptyProcessData, generateOffline, runLicenseProcess } from '@/lib/provisioning/license-process';
+import { fromHex, toHex } from '@/lib/utils';
+
+// ============================================================================
+// Station
+// ============================================================================
+
+/** Bad arguments; reported with the usage text. */
+export class UsageError extends Error {}
+
+export interface StationOptions {
+  profile: DeviceProfile;
+  dongles: HIDTransportFactory;
+  targets: HIDTransportFactory;
+  onLog: (entry: LogEntry) => void;
+}
+
+/** The devices of one CLI run, attached on first use and released by `close`. */
+export class Station {
+  private pool: DonglePool | null = null;
+  private targetClient: TargetDeviceClient | null = null;
+
+  constructor(private readonly options: StationOptions) {}
+
+  get profile(): DeviceProfile {
+    return this.options.profile;
+  }
+
+  /** Every attached dongle, counters read. */
+  async dongles(): Promise<DonglePool> {
+    if (!this.pool) {
+      const { dongles, onLog, profile } = this.options;
+      this.pool = new DonglePool(dongles, onLog, profile);
+      await this.pool.reconnectAll();
+    }
+    if (this.pool.getSnapshot().length === 0) {
+      throw new DeviceNotFoundError('Dongle');
+    }
+    return this.pool;
+  }
+
+  /** The first attached target. */
+  async target(): Promise<TargetDeviceClient> {
+    if (!this.targetClient) {
+      const { targets, onLog, profile } = this.options;
+      const transport = targets.create();
+      const client = transport && new TargetDeviceClient(onLog, transport, profile);
+      if (!client || !await client.reconnect()) {
+        throw new DeviceNotFoundError('Target');
+      }
+      this.targetClient = client;
+    }
+    return this.targetClient;
+  }
+
+  async close(): Promise<void> {
+    await this.pool?.clear();
+    await this.targetClient?.disconnect();
+  }
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+export interface CommandOptions {
+  /** As `LicenseProcessCallbacks.licenseKey`: false writes licenses unchecked. */
+  licenseKey: string | null | false;
+  verifyMode: LicenseVerifyMode;
+  /** Retry a failed generation without asking; it may spend a second credit. */
+  allowRegenerate: boolean;
+  /** Progress notes for the operator (stderr). */
+  note: (message: string) => void;
+  /** Aborted on Ctrl-C. */
+  signal: AbortSignal;
+}
+
+/**
+ * Filled in as a command runs, so a failure still reports what was obtained
+ * (e.g. the counter read before a generation failed).
+ */
+export type CommandResult = Record<string, unknown>;
+
+export interface Command {
+  usage: string;
+  summary: string;
+  run: (station: Station, args: string[], options: CommandOptions, result: CommandResult) => Promise<void>;
+}
+
+/** A hex argument, or the path of a file holding raw bytes of `rawLength` or hex text. */
+function readBytes(arg: string | undefined, what: string, rawLength: number): Uint8Array {
+  if (!arg) {
+    throw new UsageError(`Missing ${what}`);
+  }
+
+  let text = arg;
+  if (existsSync(arg)) {
+    const file = readFileSync(arg);
+    if (file.length === rawLength) return new Uint8Array(file);
+    text = file.toString('utf8');
+  }
+
+  const clean = text.replace(/\s|0x/gi, '');
+  if (!clean || clean.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(clean)) {
+    throw new UsageError(`${what} is neither hex nor a readable file`);
+  }
+  return fromHex(clean);
+}
+
+function processResult(data: LicenseProcessData): CommandResult {
+  return {
+    uuid: data.uuid && toHex(data.uuid),
+    license: data.license && toHex(data.license),
+    dongle: data.dongle,
+    counterBefore: data.counterBefore,
+    counterAfter: data.counterAfter,
+    creditAnomaly: data.creditAnomaly,
+    failedStep: data.failedStep,
+  };
+}
+
+export const COMMANDS: Record<string, Command> = {
+  counter: {
+    usage: 'counter',
+    summary: 'Read the credit counter of every attached dongle',
+    run: async (station, _args, _options, result) => {
+      const pool = await station.dongles();
+      const entries = pool.getSnapshot();
+      result.dongles = entries.map(entry => ({ dongle: deviceLabel(entry), counter: entry.counter }));
+      result.totalCredits = pool.totalCredits;
+    },
+  },
+
+  'read-uuid': {
+    usage: 'read-uuid',
+    summary: "Read the target's UUID",
+    run: async (station, _args, options, result) => {
+      const target = await station.target();
+      result.uuid = toHex(await target.readUUID(options.signal));
+    },
+  },
+
+  generate: {
+    usage: 'generate <uuid>',
+    summary: 'Generate a license for a UUID (hex or file); spends one dongle credit',
+    run: async (station, [uuidArg], options, result) => {
+      const uuid = readBytes(uuidArg, 'UUID', station.profile.uuidLength);
+      result.uuid = toHex(uuid);
+
+      const pool = await station.dongles();
+      const first = pool.select();
+      if (!first) {
+        throw new CounterExhaustedError(0);
+      }
+
+      const data = emptyProcessData();
+      options.note(`Generating on ${deviceLabel(first)} (${first.counter} credits left)`);
+      try {
+        await generateOffline(first.client, uuid, data, {
+          nextDongle: exhausted => pool.select(exhausted)?.client ?? null,
+          onCreditAnomaly: kind => options.note(`Credit anomaly: ${kind}`),
+          signal: options.signal,
+        });
+      } finally {
+        Object.assign(result, processResult(data));
+      }
+    },
+  },
+
+  'write-license': {
+    usage: 'write-license <license>',
+    summary: 'Check a license (hex or file) against the target and write it',
+    run: async (station, [licenseArg], options, result) => {
+      const license = readBytes(licenseArg, 'License', station.profile.licenseLength);
+      const target = await station.target();
+
+      const uuid = await target.readUUID(options.signal);
+      result.uuid = toHex(uuid);
+      if (options.licenseKey !== false) {
+        await assertLicenseAccepted(license, uuid, options.licenseKey, station.profile.licenseLength, 'Target');
+      }
+
+      await target.writeLicense(license, options.verifyMode, options.signal);
+      result.verifyMode = options.verifyMode;
+    },
+  },
+
+  provision: {
+    usage: 'provision',
+    summary: 'Read the UUID, generate, check and write a license, failing over between dongles',
+    run: async (station, _args, options, result) => {
+      const pool = await station.dongles();
+      const target = await station.target();
+      const first = pool.select();
+      if (!first) {
+        throw new CounterExhaustedError(0);
+      }
+
+      const data = emptyProcessData();
+      try {
+        await runLicenseProcess(first.client, target, data, {
+          verifyMode: options.verifyMode,
+          licenseKey: options.licenseKey,
+          nextDongle: exhausted => pool.select(exhausted)?.client ?? null,
+          onStep: step => options.note(`Step: ${step}`),
+          onRetry: (step, attempt, error, delayMs) =>
+            options.note(`Retrying ${step} (attempt ${attempt}) in ${delayMs} ms: ${(error as Error).message}`),
+          onCreditAnomaly: kind => options.note(`Credit anomaly: ${kind}`),
+          confirmRetry: async () => options.allowRegenerate,
+          signal: options.signal,
+        });
+      } finally {
+        Object.assign(result, processResult(data), { verifyMode: options.verifyMode });
+      }
+    },
+  },
+
+  'verify-audit': {
+    usage: 'verify-audit <file> [fp]',
+    summary: 'Check an exported audit bundle offline; fp: the expected key fingerprint',
+    run: async (_station, [bundleArg, fingerprint], _options, result) => {
+      if (!bundleArg || !existsSync(bundleArg)) {
+        throw new UsageError('Missing audit bundle file');
+      }
+
+      let bundle: AuditBundle;
+      try {
+        bundle = JSON.parse(readFileSync(bundleArg, 'utf8'));
+      } catch {
+        throw new UsageError(`${bundleArg} is not JSON`);
+      }
+      const report = await verifyAuditBundle(bundle);
+      const fingerprintMatches = fingerprint ? report.fingerprint === fingerprint.toLowerCase() : null;
+      Object.assign(result, {
+        records: report.chain.count,
+        head: report.chain.head?.hash ?? null,
+        fingerprint: report.fingerprint,
+        fingerprintMatches,
+        signatureValid: report.signatureValid,
+        headMatches: report.headMatches,
+        issues: report.chain.issues.length ? report.chain.issues : null,
+      });
+
+      if (!report.ok || fingerprintMatches === false) {
+        throw new Error('Audit bundle failed verification');
+      }
+    },
+  },
+};
@@ -0,0 +1,205 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { COMMANDS, CommandOptions, CommandResult, Station, UsageError } from './commands';
+import { HIDErrorCode, describeError } from '@/lib/hid/errors';
+import { NodeHIDTransportFactory } from '@/lib/hid/node-hid-transport';
+import { DEFAULT_DEVICE_PROFILE, DeviceProfile, parseProfile } from '@/lib/hid/profiles';
+import { SimulatedDongle, SimulatedRack, SimulatedTarget } from '@/lib/hid/simulator';
+import { HIDTransportFactory } from '@/lib/hid/transport';
+import { LicenseVerifyMode, LogEntry } from '@/lib/hid/types';
+import { SIMULATOR_PUBLIC_KEY, bundledPublicKey } from '@/lib/license/signature';
+import { fromHex } from '@/lib/utils';
+
+// ============================================================================
+// License Tool CLI
+// ============================================================================
+//
+// Headless counterpart of the web app, for factory stations and scripts:
+//   npm run cli -- provision --verify readback --json
+// Results go to stdout (one JSON object with --json), progress to stderr.
+
+const OPTIONS = {
+  simulator: { type: 'boolean' },
+  profile: { type: 'string' },
+  key: { type: 'string' },
+  'skip-check': { type: 'boolean' },
+  verify: { type: 'string' },
+  'allow-regenerate': { type: 'boolean' },
+  json: { type: 'boolean' },
+  verbose: { type: 'boolean' },
+  'sim-credits': { type: 'string' },
+  'sim-uuid': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+const USAGE = `Usage: license-tool <command> [options]
+
+Commands:
+${Object.values(COMMANDS).map(c => `  ${c.usage.padEnd(26)}${c.summary}`).join('\n')}
+
+Options:
+  --simulator               Use the in-memory simulator instead of USB devices
+  --profile <file>          Device profile JSON (default: the built-in profile)
+  --key <file|hex>          Public key licenses are checked against before writing
+                            (default: $NEXT_PUBLIC_LICENSE_PUBLIC_KEY; the simulator key with --simulator)
+  --skip-check              Write licenses without checking signature and UUID binding
+  --verify <mode>           Confirm writes: off (default), ack or readback
+  --allow-regenerate        Retry a failed generation unattended (may spend a second credit)
+  --json                    Print one JSON object instead of text
+  --verbose                 Log HID traffic to stderr
+  --sim-credits <n>         Credits on the simulated dongle (default 100)
+  --sim-uuid <hex>          UUID of the simulated target (default random)
+
+Exit codes:
+  0 success, 1 unexpected error, 2 usage error, 3 device not found or disconnected,
+  4 communication failure, 5 dongle out of credits, 6 license rejected, 7 write not confirmed,
+  130 cancelled (Ctrl-C)`;
+
+/** Stable per failure class so scripts can branch without parsing output. */
+const EXIT_CODES: Record<HIDErrorCode, number> = {
+  NOT_SUPPORTED: 3,
+  USER_CANCELLED_PICKER: 3,
+  DEVICE_IN_USE: 3,
+  DEVICE_NOT_FOUND: 3,
+  NOT_CONNECTED: 3,
+  TIMEOUT: 4,
+  SHORT_RESPONSE: 4,
+  PROTOCOL_VIOLATION: 4,
+  INVALID_PAYLOAD: 2,
+  COUNTER_EXHAUSTED: 5,
+  LICENSE_REJECTED: 6,
+  VERIFICATION_FAILED: 7,
+  CANCELLED: 130,
+};
+
+const VERIFY_MODES: LicenseVerifyMode[] = ['off', 'ack', 'readback'];
+
+type ParsedOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/** A value given inline or the path of a file holding it. */
+function readText(value: string): string {
+  return existsSync(value) ? readFileSync(value, 'utf8') : value;
+}
+
+function loadProfile(values: ParsedOptions): DeviceProfile {
+  if (!values.profile) return DEFAULT_DEVICE_PROFILE;
+  try {
+    return parseProfile(readFileSync(values.profile, 'utf8'));
+  } catch (e) {
+    throw new UsageError(`Cannot load profile ${values.profile}: ${(e as Error).message}`);
+  }
+}
+
+function commandOptions(values: ParsedOptions, signal: AbortSignal): CommandOptions {
+  const verifyMode = (values.verify ?? 'off') as LicenseVerifyMode;
+  if (!VERIFY_MODES.includes(verifyMode)) {
+    throw new UsageError(`--verify must be one of ${VERIFY_MODES.join(', ')}`);
+  }
+
+  let licenseKey: string | null | false;
+  if (values['skip-check']) licenseKey = false;
+  else if (values.key) licenseKey = readText(values.key).trim();
+  else licenseKey = values.simulator ? SIMULATOR_PUBLIC_KEY : bundledPublicKey();
+
+  return {
+    licenseKey,
+    verifyMode,
+    allowRegenerate: values['allow-regenerate'] ?? false,
+    note: message => console.error(message),
+    signal,
+  };
+}
+
+function createTransports(values: ParsedOptions, profile: DeviceProfile): { dongles: HIDTransportFactory; targets: HIDTransportFactory } {
+  if (!values.simulator) {
+    return { dongles: new NodeHIDTransportFactory(), targets: new NodeHIDTransportFactory() };
+  }
+
+  const credits = Number(values['sim-credits'] ?? 100);
+  if (!Number.isInteger(credits) || credits < 0) {
+    throw new UsageError('--sim-credits must be a non-negative integer');
+  }
+  const uuid = values['sim-uuid'];
+  if (uuid !== undefined && !/^([0-9a-f]{2})+$/i.test(uuid)) {
+    throw new UsageError('--sim-uuid must be hex');
+  }
+
+  return {
+    dongles: new SimulatedRack([new SimulatedDongle({ serialNumber: 'SIM-DONGLE-A', counter: credits, profile })]),
+    targets: new SimulatedRack([new SimulatedTarget({ uuid: uuid ? fromHex(uuid) : undefined, profile })]),
+  };
+}
+
+function logToStderr(entry: LogEntry) {
+  const packet = entry.packet ? ` ${Array.from(entry.packet.payload, b => b.toString(16).padStart(2, '0')).join(' ')}` : '';
+  console.error(`[${entry.device ?? '-'}] ${entry.type}: ${entry.message}${packet}`);
+}
+
+function printResult(result: CommandResult) {
+  for (const [key, value] of Object.entries(result)) {
+    if (value === null || value === undefined) continue;
+    console.log(`${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  let values: ParsedOptions;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const [name, ...args] = positionals;
+  if (values.help || !name) {
+    (values.help ? console.log : console.error)(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const result: CommandResult = {};
+  let station: Station | null = null;
+  // Ctrl-C cancels the device operation in flight; the devices are still released
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.once('SIGINT', onInterrupt);
+  try {
+    const command = COMMANDS[name];
+    if (!command) {
+      throw new UsageError(`Unknown command: ${name}`);
+    }
+
+    const profile = loadProfile(values);
+    const options = commandOptions(values, controller.signal);
+    station = new Station({ profile, ...createTransports(values, profile), onLog: values.verbose ? logToStderr : () => {} });
+
+    await command.run(station, args, options, result);
+    if (values.json) console.log(JSON.stringify({ ok: true, command: name, ...result }));
+    else printResult(result);
+    return 0;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+
+    const { code, title, hint } = describeError(e);
+    const message = e instanceof Error ? e.message : String(e);
+    if (values.json) {
+      console.log(JSON.stringify({ ok: false, command: name, ...result, error: { code, title, message, hint } }));
+    } else {
+      printResult(result);
+      console.error(`Error: ${title}${message !== title ? ` (${message})` : ''}`);
+      if (hint) console.error(`Hint: ${hint}`);
+    }
+    return code ? EXIT_CODES[code] : 1;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    await station?.close().catch(() => {});
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
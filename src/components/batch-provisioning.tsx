@@ -0,0 +1,361 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useHID } from '@/lib/hid/hid-context';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { runLicenseProcess, emptyProcessData, ProcessStep } from '@/lib/provisioning/license-process';
+import { BatchPhase, BatchUnitResult, tallyBatch, decideUnattended } from '@/lib/provisioning/batch';
+import { auditLicense, recordLicenseAttempt, failureOutcome } from '@/lib/ledger/ledger';
+import { toHex } from '@/lib/utils';
+import { writeGateKey } from '@/lib/license/signature';
+import { useSettings } from '@/lib/settings';
+import { licenseCheckSkipped } from '@/lib/operators/session';
+import { toastError, toastCreditAnomaly } from '@/lib/notify';
+import { deviceLabel } from '@/lib/hid/device-pool';
+import { Loader2, PlayCircle, Square, Usb, RefreshCw, Info } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BatchProvisioningProps {
+  forceRegenerate: boolean;
+  onRunningChange?: (running: boolean) => void;
+}
+
+const STEP_LABELS: Partial<Record<ProcessStep, string>> = {
+  'get-uuid': 'Reading UUID...',
+  'get-counter': 'Checking Counter...',
+  'generate-license': 'Generating License...',
+  'check-license': 'Checking License...',
+  'write-license': 'Writing License...',
+  'verify-license': 'Verifying License...',
+};
+
+export function BatchProvisioning({ forceRegenerate, onRunningChange }: BatchProvisioningProps) {
+  const { dongles, target, simulator } = useHID();
+  const { verifyMode, licensePublicKey } = useSettings();
+  const [phase, setPhase] = useState<BatchPhase>('idle');
+  const [units, setUnits] = useState<BatchUnitResult[]>([]);
+  const [currentStep, setCurrentStep] = useState<ProcessStep>('idle');
+  const [stopReason, setStopReason] = useState<string | null>(null);
+  const [plannedUnits, setPlannedUnits] = useState('');
+
+  // Refs so the async unit pipeline sees current values, not stale closures
+  const stopRequestedRef = useRef(false);
+  const licensedUuidsRef = useRef<Set<string>>(new Set());
+  const unitIndexRef = useRef(0);
+  const plannedRef = useRef<number | null>(null);
+
+  const tally = tallyBatch(units);
+  const isRunning = phase !== 'idle' && phase !== 'stopped';
+
+  useEffect(() => {
+    onRunningChange?.(isRunning);
+  }, [isRunning]);
+
+  const stopBatch = (reason: string) => {
+    stopRequestedRef.current = true;
+    setStopReason(reason);
+    setPhase(prev => (prev === 'processing' ? prev : 'stopped'));
+  };
+
+  const handleStartBatch = () => {
+    if (dongles.entries.length === 0) {
+      toast.error('Connect the License Dongle first');
+      return;
+    }
+    if (!dongles.pool.select()) {
+      toast.error('No dongle has credits left');
+      return;
+    }
+
+    // Every unit may need a fresh license: never start what the credits cannot finish
+    const planned = plannedUnits.trim() ? parseInt(plannedUnits, 10) : null;
+    if (planned !== null && (!Number.isInteger(planned) || planned <= 0)) {
+      toast.error('Planned units must be a positive number');
+      return;
+    }
+    if (planned !== null && planned > dongles.totalCredits) {
+      toast.error(`Not enough credits for ${planned} units`, {
+        description: `The attached dongles have ${dongles.totalCredits} credits left. Add a dongle or plan a smaller batch.`,
+      });
+      return;
+    }
+
+    plannedRef.current = planned;
+    stopRequestedRef.current = false;
+    licensedUuidsRef.current = new Set();
+    unitIndexRef.current = 0;
+    setUnits([]);
+    setStopReason(null);
+    setPhase('waiting-target');
+    toast.info('Batch started. Plug in the first target device.');
+  };
+
+  const processUnit = async () => {
+    const dongle = dongles.pool.select();
+    if (!dongle || !target.client) return;
+
+    setPhase('processing');
+    const index = ++unitIndexRef.current;
+    const data = emptyProcessData();
+    let result: BatchUnitResult;
+    let failure: unknown = null;
+
+    try {
+      await runLicenseProcess(dongle.client, target.client, data, {
+        onStep: setCurrentStep,
+        nextDongle: exhausted => dongles.pool.select(exhausted)?.client ?? null,
+        onFailover: (from, to) => {
+          toast.warning(`${deviceLabel(from)} is out of credits. Switched to ${deviceLabel(to)}.`);
+        },
+        checkUUID: uuid => decideUnattended(uuid, licensedUuidsRef.current, forceRegenerate),
+        auditLicense: d => auditLicense('batch', d),
+        verifyMode,
+        licenseKey: writeGateKey(licensePublicKey, licenseCheckSkipped()),
+        onCreditAnomaly: toastCreditAnomaly,
+      });
+
+      const uuidHex = data.uuid ? toHex(data.uuid) : null;
+      if (data.skipReason) {
+        result = { index, uuidHex, status: 'skipped', counterAfter: data.counterAfter, reusedLicense: false, error: data.skipReason, timestamp: Date.now() };
+      } else {
+        if (uuidHex) licensedUuidsRef.current.add(uuidHex);
+        result = { index, uuidHex, status: 'licensed', counterAfter: data.counterAfter, reusedLicense: data.reusedLicense, error: null, timestamp: Date.now() };
+      }
+    } catch (e) {
+      const error = e as Error;
+      result = {
+        index,
+        uuidHex: data.uuid ? toHex(data.uuid) : null,
+        status: 'failed',
+        counterAfter: data.counterAfter,
+        reusedLicense: data.reusedLicense,
+        error: error.message,
+        timestamp: Date.now(),
+      };
+      failure = e;
+      console.error('Batch unit error:', e);
+    }
+
+    let recorded = true;
+    try {
+      await recordLicenseAttempt(
+        'batch',
+        data,
+        result.status === 'licensed' ? 'success' : result.status === 'failed' ? failureOutcome(failure) : result.status,
+        result.error
+      );
+    } catch (e) {
+      recorded = false;
+      toastError(`Unit #${index} not recorded in the provisioning history`, e);
+    }
+
+    setUnits(prev => [...prev, result]);
+    setCurrentStep('idle');
+
+    if (result.status === 'licensed') {
+      toast.success(`Unit #${index} licensed. Swap in the next target.`);
+    } else if (result.status === 'failed') {
+      toastError(`Unit #${index} failed`, failure);
+    } else {
+      toast.warning(`Unit #${index} skipped: ${result.error}`);
+    }
+
+    if (!recorded) {
+      // Nobody may be watching: stop before more licenses go unrecorded
+      stopRequestedRef.current = true;
+      setStopReason('The provisioning history could not be written');
+    } else if (plannedRef.current !== null && licensedUuidsRef.current.size >= plannedRef.current) {
+      stopRequestedRef.current = true;
+      setStopReason(`Planned batch of ${plannedRef.current} units complete`);
+    } else if (!dongles.pool.select()) {
+      stopRequestedRef.current = true;
+      setStopReason('All dongles out of credits');
+    }
+    setPhase(stopRequestedRef.current ? 'stopped' : 'waiting-removal');
+  };
+
+  // Next target plugged in → license it
+  useEffect(() => {
+    if (phase === 'waiting-target' && target.connectionState.isConnected) {
+      processUnit();
+    }
+  }, [phase, target.connectionState.isConnected]);
+
+  // Licensed target removed → wait for the next one
+  useEffect(() => {
+    if (phase === 'waiting-removal' && !target.connectionState.isConnected) {
+      setPhase('waiting-target');
+    }
+  }, [phase, target.connectionState.isConnected]);
+
+  // The batch cannot go on without a dongle
+  useEffect(() => {
+    if (isRunning && dongles.entries.length === 0) {
+      stopBatch('Dongle disconnected');
+    }
+  }, [isRunning, dongles.entries.length]);
+
+  const handleConnectTarget = async () => {
+    try {
+      await target.connect();
+    } catch (e) {
+      toastError('Failed to connect Target Device', e);
+    }
+  };
+
+  const handleSwapSimulatedUnit = () => {
+    const unit = simulator?.targets.find(t => t === target.connectionState.device);
+    if (!unit) return;
+    unit.unplug();
+    unit.replaceUnit();
+    unit.plug();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Batch Provisioning</CardTitle>
+        <CardDescription>
+          Keeps the dongle connected and licenses each target as it is plugged in, until stopped or out of credits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-md border p-2">
+            <div className="text-2xl font-bold text-green-600">{tally.licensed}</div>
+            <div className="text-xs text-muted-foreground">Licensed</div>
+          </div>
+          <div className="rounded-md border p-2">
+            <div className="text-2xl font-bold text-red-600">{tally.failed}</div>
+            <div className="text-xs text-muted-foreground">Failed</div>
+          </div>
+          <div className="rounded-md border p-2">
+            <div className="text-2xl font-bold text-muted-foreground">{tally.skipped}</div>
+            <div className="text-xs text-muted-foreground">Skipped</div>
+          </div>
+        </div>
+
+        {phase === 'waiting-target' && (
+          <Alert>
+            <Usb className="h-4 w-4" />
+            <AlertTitle>Waiting for next target</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-2">
+              <span>
+                {target.connectionState.isWaiting
+                  ? 'Plug in the next unit. Units connected before are picked up automatically; new ones need Connect Target.'
+                  : 'Plug in the next unit and connect it.'}
+              </span>
+              <Button size="sm" onClick={handleConnectTarget}>Connect Target</Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {phase === 'processing' && (
+          <Alert>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <AlertTitle>Unit #{unitIndexRef.current}</AlertTitle>
+            <AlertDescription>{STEP_LABELS[currentStep] ?? 'Processing...'}</AlertDescription>
+          </Alert>
+        )}
+
+        {phase === 'waiting-removal' && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertTitle>Remove the current target</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-2">
+              <span>Unplug or disconnect this unit to continue with the next one.</span>
+              {simulator && (
+                <Button size="sm" variant="outline" onClick={handleSwapSimulatedUnit}>
+                  <RefreshCw className="w-3 h-3 mr-1" /> Swap Simulated Unit
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {phase === 'stopped' && stopReason && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertTitle>Batch stopped</AlertTitle>
+            <AlertDescription>{stopReason}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="planned-units" className="text-sm font-normal whitespace-nowrap">Planned units:</Label>
+          <Input
+            id="planned-units"
+            type="number"
+            min={1}
+            className="h-8 w-24"
+            placeholder="All"
+            value={plannedUnits}
+            disabled={isRunning}
+            onChange={e => setPlannedUnits(e.target.value)}
+          />
+          <span className="text-xs text-muted-foreground">
+            Capacity: {dongles.totalCredits} units
+            {plannedRef.current !== null && isRunning && ` · ${tally.licensed}/${plannedRef.current} done`}
+          </span>
+        </div>
+
+        {!isRunning ? (
+          <Button
+            size="lg"
+            className="w-full"
+            disabled={dongles.entries.length === 0 || dongles.totalCredits <= 0}
+            onClick={handleStartBatch}
+          >
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Start Batch
+          </Button>
+        ) : (
+          <Button size="lg" variant="destructive" className="w-full" onClick={() => stopBatch('Stopped by operator')}>
+            <Square className="w-4 h-4 mr-2" />
+            {phase === 'processing' ? 'Stop After Current Unit' : 'Stop Batch'}
+          </Button>
+        )}
+
+        {units.length > 0 && (
+          <div className="rounded-md border overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/50 text-muted-foreground">
+                <tr>
+                  <th className="p-2 text-left">#</th>
+                  <th className="p-2 text-left">UUID</th>
+                  <th className="p-2 text-left">Result</th>
+                  <th className="p-2 text-right">Counter</th>
+                  <th className="p-2 text-left">Time</th>
+                  <th className="p-2 text-left">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...units].reverse().map(unit => (
+                  <tr key={unit.index} className="border-t">
+                    <td className="p-2">{unit.index}</td>
+                    <td className="p-2 font-mono">{unit.uuidHex ? `${unit.uuidHex.slice(0, 16)}…` : '—'}</td>
+                    <td className="p-2">
+                      <Badge variant={unit.status === 'licensed' ? 'default' : unit.status === 'failed' ? 'destructive' : 'secondary'}>
+                        {unit.status}
+                      </Badge>
+                    </td>
+                    <td className="p-2 text-right">{unit.counterAfter ?? '—'}</td>
+                    <td className="p-2">{new Date(unit.timestamp).toLocaleTimeString()}</td>
+                    <td className="p-2 text-muted-foreground">
+                      {unit.error ?? (unit.reusedLicense ? 'Re-wrote stored license (no credit used)' : '')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
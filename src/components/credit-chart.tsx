@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { CreditAnomaly, CreditSample } from '@/lib/ledger/credits';
+
+interface CreditChartProps {
+  samples: CreditSample[];
+  anomalies: CreditAnomaly[];
+  /** Drawn as a dashed line when it falls inside the plotted range. */
+  threshold: number;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 8, right: 8, bottom: 18, left: 32 };
+
+/** Step chart of one dongle's counter over time, with anomalies marked in red. */
+export function CreditChart({ samples, anomalies, threshold, width = 480, height = 140 }: CreditChartProps) {
+  if (samples.length === 0) {
+    return <div className="text-sm text-muted-foreground italic">No counter readings.</div>;
+  }
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const first = samples[0].timestamp;
+  const last = samples[samples.length - 1].timestamp;
+  const maxCounter = Math.max(...samples.map(s => s.counter), threshold, 1);
+
+  const x = (timestamp: number) => PADDING.left + (last === first ? plotWidth / 2 : ((timestamp - first) / (last - first)) * plotWidth);
+  const y = (counter: number) => PADDING.top + plotHeight - (counter / maxCounter) * plotHeight;
+
+  // Horizontal then vertical: the counter holds its value until the next reading
+  const path = samples
+    .map((s, i) => (i === 0 ? `M${x(s.timestamp)},${y(s.counter)}` : `H${x(s.timestamp)} V${y(s.counter)}`))
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto text-muted-foreground" role="img">
+      <line x1={PADDING.left} y1={y(0)} x2={width - PADDING.right} y2={y(0)} stroke="currentColor" strokeOpacity={0.3} />
+      <text x={PADDING.left - 4} y={y(maxCounter) + 4} textAnchor="end" fontSize={10} fill="currentColor">{maxCounter}</text>
+      <text x={PADDING.left - 4} y={y(0) + 4} textAnchor="end" fontSize={10} fill="currentColor">0</text>
+      <text x={PADDING.left} y={height - 4} fontSize={10} fill="currentColor">{new Date(first).toLocaleDateString()}</text>
+      <text x={width - PADDING.right} y={height - 4} textAnchor="end" fontSize={10} fill="currentColor">
+        {new Date(last).toLocaleDateString()}
+      </text>
+
+      {threshold > 0 && threshold < maxCounter && (
+        <line
+          x1={PADDING.left} y1={y(threshold)} x2={width - PADDING.right} y2={y(threshold)}
+          className="stroke-amber-500" strokeDasharray="4 3"
+        />
+      )}
+
+      <path d={path} fill="none" className="stroke-primary" strokeWidth={1.5} />
+
+      {anomalies.map((a, i) => (
+        <circle key={i} cx={x(a.timestamp)} cy={y(a.actual)} r={3.5} className="fill-red-600">
+          <title>{a.kind}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -1,24 +1,61 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { useHID } from '@/lib/hid/hid-context';
-import { LogEntry } from '@/lib/hid/types';
+import { LogEntry, LogType } from '@/lib/hid/types';
+import { deviceLabel, PooledDevice } from '@/lib/hid/device-pool';
+import { AbstractHIDClient } from '@/lib/hid/hid-client';
+import { sessionMetadata, exportFileName, logsToJSON, logsToCSV } from '@/lib/logs/export';
+import { currentOperator } from '@/lib/operators/session';
+import { logsToCapture } from '@/lib/logs/capture';
+import { LogFilter, EMPTY_LOG_FILTER, LOG_RETENTION_LIMIT, matchesLogFilter, parseReportId, logDevices } from '@/lib/logs/filter';
+import { downloadFile, hexDump } from '@/lib/utils';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+const LOG_TYPES: LogType[] = ['info', 'success', 'error', 'tx', 'rx'];
+
+const SELECT_CLASS = 'h-6 rounded border bg-background px-1 text-xs';
+
+/** Commands queued or running on each attached device, keyed by entry ID. */
+function useQueueDepths(devices: PooledDevice<AbstractHIDClient>[]): Record<string, number> {
+  const [depths, setDepths] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    setDepths(Object.fromEntries(devices.map(d => [d.id, d.client.pendingCommands])));
+    const unsubscribers = devices.map(d =>
+      d.client.addQueueListener(depth => setDepths(prev => ({ ...prev, [d.id]: depth })))
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [devices.map(d => d.id).join()]);
+
+  return depths;
+}
 
 export function DebugConsole() {
-  const { logs, clearLogs } = useHID();
+  const { logs, clearLogs, transportKind, dongles, targets } = useHID();
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const [reportIdText, setReportIdText] = useState('');
+  const [isPaused, setIsPaused] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const visibleLogs = logs.filter(log => matchesLogFilter(log, filter));
+  const devices = logDevices(logs);
+  const attached = [...dongles.entries, ...targets.entries];
+  const queueDepths = useQueueDepths(attached);
 
-  // Auto-scroll to bottom
+  // Auto-scroll to bottom unless paused
   useEffect(() => {
+    if (isPaused) return;
     if (scrollRef.current) {
         const scrollContainer = scrollRef.current.querySelector('[data-radix-scroll-area-viewport]');
         if (scrollContainer) {
             scrollContainer.scrollTop = scrollContainer.scrollHeight;
         }
     }
-  }, [logs]);
+  }, [logs, filter, isPaused]);
 
   const getVariant = (type: LogEntry['type']) => {
     switch (type) {
@@ -30,36 +67,177 @@ export function DebugConsole() {
     }
   };
 
+  const updateFilter = (patch: Partial<LogFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const handleReportIdChange = (text: string) => {
+    setReportIdText(text);
+    updateFilter({ reportId: parseReportId(text) });
+  };
+
+  const handleClearFilters = () => {
+    setFilter(EMPTY_LOG_FILTER);
+    setReportIdText('');
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleClear = () => {
+    clearLogs();
+    setExpanded(new Set());
+  };
+
+  const handleExport = (format: 'json' | 'csv' | 'pcapng') => {
+    const metadata = sessionMetadata(
+      transportKind,
+      dongles.entries.map(d => ({ label: deviceLabel(d), productName: d.productName, serialNumber: d.serialNumber, counter: d.counter })),
+      targets.entries.map(t => ({ label: deviceLabel(t), productName: t.productName, serialNumber: t.serialNumber })),
+      currentOperator()?.name ?? null
+    );
+    const name = exportFileName(metadata);
+
+    // Exports always cover the full retained log, not just the filtered view
+    switch (format) {
+      case 'json':
+        downloadFile(`${name}.json`, logsToJSON(logs, metadata), 'application/json');
+        break;
+      case 'csv':
+        downloadFile(`${name}.csv`, logsToCSV(logs, metadata), 'text/csv');
+        break;
+      case 'pcapng':
+        downloadFile(`${name}.pcapng`, logsToCapture(logs, metadata), 'application/vnd.tcpdump.pcap');
+        break;
+    }
+  };
+
+  const isFiltered = filter.device !== null || filter.type !== null || filter.reportId !== null || filter.search !== '';
+
   return (
-    <div className="border-t bg-muted/30 p-4 h-[300px] flex flex-col">
+    <div className="border-t bg-muted/30 p-4 h-[360px] flex flex-col">
       <div className="flex items-center justify-between mb-2">
-        <h3 className="font-semibold text-sm">Debug Console</h3>
-        <button 
-            onClick={clearLogs}
-            className="text-xs text-muted-foreground hover:text-foreground"
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          Debug Console
+          {transportKind === 'simulator' && (
+            <Badge variant="secondary" className="h-5 px-1 text-[10px] uppercase">Simulator</Badge>
+          )}
+          <span className="text-xs font-normal text-muted-foreground">
+            {isFiltered ? `${visibleLogs.length} of ${logs.length}` : logs.length}
+            {logs.length >= LOG_RETENTION_LIMIT && ` (last ${LOG_RETENTION_LIMIT} kept)`}
+          </span>
+          {attached.length > 0 && (
+            <span className="text-xs font-normal text-muted-foreground" title="Commands queued or in flight per device">
+              Queue: {attached.map(d => `${deviceLabel(d)} ${queueDepths[d.id] ?? 0}`).join(' · ')}
+            </span>
+          )}
+        </h3>
+        <div className="flex gap-3">
+          <button
+              onClick={() => setIsPaused(p => !p)}
+              className="text-xs text-muted-foreground hover:text-foreground"
+          >
+              {isPaused ? 'Resume Scroll' : 'Pause Scroll'}
+          </button>
+          {(['json', 'csv', 'pcapng'] as const).map(format => (
+            <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={logs.length === 0}
+                className="text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+            >
+                Export {format.toUpperCase()}
+            </button>
+          ))}
+          <button
+              onClick={handleClear}
+              className="text-xs text-muted-foreground hover:text-foreground"
+          >
+              Clear
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <select
+          aria-label="Device"
+          className={SELECT_CLASS}
+          value={filter.device ?? ''}
+          onChange={e => updateFilter({ device: e.target.value || null })}
+        >
+          <option value="">All devices</option>
+          {devices.map(device => <option key={device} value={device}>{device}</option>)}
+        </select>
+        <select
+          aria-label="Type"
+          className={SELECT_CLASS}
+          value={filter.type ?? ''}
+          onChange={e => updateFilter({ type: (e.target.value || null) as LogType | null })}
         >
-            Clear
-        </button>
+          <option value="">All types</option>
+          {LOG_TYPES.map(type => <option key={type} value={type}>{type.toUpperCase()}</option>)}
+        </select>
+        <input
+          aria-label="Report ID"
+          className={`${SELECT_CLASS} w-20 font-mono`}
+          placeholder="Report ID"
+          value={reportIdText}
+          onChange={e => handleReportIdChange(e.target.value)}
+        />
+        <input
+          aria-label="Search"
+          className={`${SELECT_CLASS} flex-1 min-w-[120px]`}
+          placeholder="Search messages and bytes"
+          value={filter.search}
+          onChange={e => updateFilter({ search: e.target.value })}
+        />
+        {isFiltered && (
+          <button onClick={handleClearFilters} className="text-xs text-muted-foreground hover:text-foreground">
+            Reset
+          </button>
+        )}
       </div>
-      <ScrollArea className="flex-1 rounded-md border bg-background p-4 font-mono text-xs" ref={scrollRef}>
+      <ScrollArea className="flex-1 min-h-0 rounded-md border bg-background p-4 font-mono text-xs" ref={scrollRef}>
         <div className="space-y-1">
-          {logs.map((log) => (
-            <div key={log.id} className="flex gap-2">
-               <span className="text-muted-foreground min-w-[70px]">
-                 {new Date(log.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalSecondDigits: 3 })}
-               </span>
-               <Badge variant={getVariant(log.type)} className="h-5 px-1 text-[10px] uppercase min-w-[50px] justify-center">
-                  {log.type}
-               </Badge>
-               <span className="flex-1 break-all">
-                 {log.message}
-                 {log.data && <span className="block text-muted-foreground opacity-70 mt-0.5 ml-2">{log.data}</span>}
-               </span>
+          {visibleLogs.map((log) => (
+            <div key={log.id}>
+              <div className="flex gap-2">
+                 <span className="text-muted-foreground min-w-[70px]">
+                   {new Date(log.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit', fractionalSecondDigits: 3 })}
+                 </span>
+                 <Badge variant={getVariant(log.type)} className="h-5 px-1 text-[10px] uppercase min-w-[50px] justify-center">
+                    {log.type}
+                 </Badge>
+                 {log.device && <span className="text-muted-foreground min-w-[50px]">{log.device}</span>}
+                 <span className="flex-1 break-all">
+                   {log.packet ? (
+                     <button
+                       onClick={() => toggleExpanded(log.id)}
+                       className="inline-flex items-center gap-1 hover:text-primary"
+                     >
+                       {expanded.has(log.id) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                       {log.message}
+                     </button>
+                   ) : log.message}
+                   {log.data && <span className="block text-muted-foreground opacity-70 mt-0.5 ml-2">{log.data}</span>}
+                 </span>
+              </div>
+              {log.packet && expanded.has(log.id) && (
+                <pre className="ml-[78px] mt-1 mb-2 p-2 rounded bg-muted/50 text-[11px] leading-4 overflow-x-auto">
+                  {hexDump(log.packet.payload).join('\n') || '(empty)'}
+                </pre>
+              )}
             </div>
           ))}
           {logs.length === 0 && (
              <div className="text-muted-foreground italic">No logs yet.</div>
           )}
+          {logs.length > 0 && visibleLogs.length === 0 && (
+             <div className="text-muted-foreground italic">No entries match the filters.</div>
+          )}
         </div>
       </ScrollArea>
     </div>
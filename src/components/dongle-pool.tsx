@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useHID } from '@/lib/hid/hid-context';
+import { deviceLabel } from '@/lib/hid/device-pool';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toastError } from '@/lib/notify';
+import { useSettings } from '@/lib/settings';
+import { isLowCredit } from '@/lib/ledger/credits';
+import { Usb, Loader2, XCircle, Plus, RefreshCw, X, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface DonglePoolCardProps {
+  /** Adding or removing dongles mid-run is blocked while licensing. */
+  disabled?: boolean;
+}
+
+export function DonglePoolCard({ disabled = false }: DonglePoolCardProps) {
+  const { dongles } = useHID();
+  const { lowCreditThreshold } = useSettings();
+  const isLow = dongles.entries.length > 0 && isLowCredit(dongles.totalCredits, lowCreditThreshold);
+
+  // Warn once each time the pool drops to the threshold, not on every read below it
+  const wasLowRef = useRef(isLow);
+  useEffect(() => {
+    if (isLow && !wasLowRef.current) {
+      toast.warning(`Low dongle credits: ${dongles.totalCredits} left`, {
+        description: 'Have a replacement dongle ready before starting a large batch.',
+      });
+    }
+    wasLowRef.current = isLow;
+  }, [isLow]);
+
+  const handleAdd = async () => {
+    try {
+      await dongles.add();
+      toast.success('License Dongle connected');
+    } catch (e) {
+      toastError('Failed to connect Dongle', e);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await dongles.remove(id);
+      toast.info('License Dongle disconnected');
+    } catch (e) {
+      toastError('Failed to disconnect Dongle', e);
+    }
+  };
+
+  const handleRefresh = async () => {
+    await dongles.refreshCounters();
+    toast.success(`Total credits: ${dongles.pool.totalCredits}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Usb className="w-4 h-4" />
+          License Dongles
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {dongles.entries.length === 0 ? (
+          <div className="flex items-center justify-between">
+            <span className="text-sm">Status:</span>
+            <Badge variant="secondary">
+              {dongles.isWaiting ? (
+                <><Loader2 className="w-3 h-3 mr-1 animate-spin" /> Waiting for device</>
+              ) : (
+                <><XCircle className="w-3 h-3 mr-1" /> Disconnected</>
+              )}
+            </Badge>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {dongles.entries.map(entry => (
+              <div key={entry.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 truncate" title={entry.productName ?? undefined}>
+                  {deviceLabel(entry)}
+                  {entry.id === dongles.active?.id && (
+                    <Badge variant="outline" className="ml-1 h-5 px-1 text-[10px]">active</Badge>
+                  )}
+                </span>
+                <Badge
+                  title={entry.counterError ?? undefined}
+                  variant={entry.counter !== null && entry.counter > 0 && !entry.counterError ? 'default' : 'destructive'}
+                  className={entry.counter !== null && entry.counter > 0 && isLowCredit(entry.counter, lowCreditThreshold) ? 'bg-amber-500' : undefined}
+                >
+                  {entry.counterError && <AlertTriangle className="w-3 h-3 mr-1" />}
+                  {entry.counter ?? '—'}
+                </Badge>
+                <Button size="icon-sm" variant="ghost" disabled={disabled} onClick={() => handleRemove(entry.id)}>
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between border-t pt-1 text-sm font-medium">
+              <span>Total credits:</span>
+              <span className={isLow ? 'text-amber-600 flex items-center gap-1' : undefined}>
+                {isLow && <AlertTriangle className="w-3 h-3" />}
+                {dongles.totalCredits}
+              </span>
+            </div>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button size="sm" onClick={handleAdd} disabled={disabled} className="flex-1">
+            <Plus className="w-3 h-3 mr-1" />
+            {dongles.entries.length === 0 ? 'Connect' : 'Add Dongle'}
+          </Button>
+          {dongles.entries.length > 0 && (
+            <Button size="sm" variant="outline" onClick={handleRefresh} disabled={disabled}>
+              <RefreshCw className="w-3 h-3 mr-1" />
+              Refresh
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,25 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { useHID } from '@/lib/hid/hid-context';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { Loader2, Check, Usb, Key, FileJson, ArrowRight } from 'lucide-react';
+import { Loader2, Check, Usb, Key, FileJson, ArrowRight, History } from 'lucide-react';
 import { toast } from 'sonner';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
+import { auditLicense, recordLicenseAttempt, findIssuedLicense, failureOutcome, settleLedgerEntry, LedgerEntry, LedgerOutcome } from '@/lib/ledger/ledger';
+import { LicenseProcessData, emptyProcessData } from '@/lib/provisioning/license-process';
+import { checkGeneration } from '@/lib/ledger/credits';
+import { assertLicenseAccepted } from '@/lib/license/inspect';
+import { resolvePublicKey } from '@/lib/license/signature';
+import { useSettings } from '@/lib/settings';
+import { licenseCheckSkipped } from '@/lib/operators/session';
+import { toastError, toastCreditAnomaly } from '@/lib/notify';
 
 // Helper to format hex string
 const toHex = (data: Uint8Array) => Array.from(data).map(b => b.toString(16).padStart(2, '0')).join('');
@@ -23,11 +32,16 @@ const fromHex = (hex: string) => {
 };
 
 export function LicenseFlow() {
-  const { dongle, target, logs, clearLogs } = useHID();
+  const { dongle, target, profile, logs, clearLogs } = useHID();
   const [currentStep, setCurrentStep] = useState(1);
   const [uuidInput, setUuidInput] = useState<string>(''); 
   const [licenseData, setLicenseData] = useState<string>('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [issuedEntry, setIssuedEntry] = useState<LedgerEntry | null>(null);
+  const [isReusedLicense, setIsReusedLicense] = useState(false);
+  // History entry of the license generated in step 3, settled by the write in step 4
+  const [generatedEntry, setGeneratedEntry] = useState<LedgerEntry | null>(null);
+  const { verifyMode, licensePublicKey } = useSettings();
 
   // Target Device UI State
   const [reportIdInput, setReportIdInput] = useState('00');
@@ -41,8 +55,7 @@ export function LicenseFlow() {
     try {
       await dongle.connect();
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      toast.error(`Failed to connect: ${message}`);
+      toastError("Failed to connect", err);
     }
   };
 
@@ -57,8 +70,8 @@ export function LicenseFlow() {
       } else {
         toast.error("Dongle handshake failed. Check logs.");
       }
-    } catch {
-      toast.error("Dongle handshake failed. Check logs.");
+    } catch (err: unknown) {
+      toastError("Dongle handshake failed", err);
     } finally {
       setIsProcessing(false);
     }
@@ -75,8 +88,7 @@ export function LicenseFlow() {
       await target.connect();
       toast.success(`Connected to Target Device`);
     } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      toast.error(`Failed to connect: ${message}`);
+      toastError("Failed to connect", err);
     }
   };
 
@@ -93,8 +105,7 @@ export function LicenseFlow() {
       await target.client.sendReport(id, data);
       toast.success("Report Sent");
     } catch (e: unknown) {
-      const message = e instanceof Error ? e.message : String(e);
-      toast.error("Send Failed: " + message);
+      toastError("Send Failed", e);
     }
   };
 
@@ -106,47 +117,126 @@ export function LicenseFlow() {
       await target.client.sendFeatureReport(id, data);
       toast.success("Feature Report Sent");
     } catch (e: unknown) {
-      const message = e instanceof Error ? e.message : String(e);
-      toast.error("Send Feature Report Failed: " + message);
+      toastError("Send Feature Report Failed", e);
     }
   };
 
-  const handleConfirmUUID = () => {
-    if (uuidInput.length !== 256) { // 128 bytes * 2
-        toast.error(`UUID must be 128 bytes (256 hex chars). Current: ${uuidInput.length}`);
+  const handleConfirmUUID = async () => {
+    if (uuidInput.length !== profile.uuidLength * 2) {
+        toast.error(`UUID must be ${profile.uuidLength} bytes (${profile.uuidLength * 2} hex chars). Current: ${uuidInput.length}`);
+        return;
+    }
+    // Look for a license already issued to this UUID before spending a credit
+    try {
+        setIssuedEntry(await findIssuedLicense(uuidInput));
+    } catch (e: unknown) {
+        // Without the answer a credit could be spent on a licensed unit: stay on this step
+        toastError("Could not check for a previously issued license", e);
         return;
     }
     setCurrentStep(3);
   };
 
+  const handleUseStoredLicense = () => {
+    if (!issuedEntry?.license) return;
+    setLicenseData(issuedEntry.license);
+    setIsReusedLicense(true);
+    setGeneratedEntry(null);
+    toast.info("Using the previously issued license. No dongle credit used.");
+    setCurrentStep(4);
+  };
+
+  // A license missing from the history cannot be found for reuse: the operator has to know
+  const recordAttempt = (attempt: LicenseProcessData, outcome: LedgerOutcome, error?: string) =>
+    recordLicenseAttempt('manual', attempt, outcome, error).catch((e: unknown) => {
+      toastError("Not recorded in the provisioning history", e);
+      return null;
+    });
+
+  // A generated license updates its own entry; a reused one is a new attempt
+  const settleAttempt = async (attempt: LicenseProcessData, outcome: LedgerOutcome, error?: string) => {
+    if (!generatedEntry) {
+      await recordAttempt(attempt, outcome, error);
+      return;
+    }
+    try {
+      setGeneratedEntry(await settleLedgerEntry(generatedEntry, outcome, error));
+    } catch (e: unknown) {
+      toastError("Not recorded in the provisioning history", e);
+    }
+  };
+
   // Step 3: Generate License
   const handleGenerateLicense = async () => {
     if (!dongle.client) return;
     setIsProcessing(true);
+    setGeneratedEntry(null);
+    const attempt = emptyProcessData();
     try {
         const uuidBytes = fromHex(uuidInput);
+        attempt.uuid = uuidBytes;
+        attempt.counterBefore = await dongle.client.getCounter();
+        attempt.dongle = dongle.client.serialNumber ?? dongle.client.productName;
         
-        toast.message("Sending UUID to Dongle...", { description: "128 bytes in 3 chunks" });
+        toast.message("Sending UUID to Dongle...", { description: `${uuidBytes.length} bytes in fragments` });
         await dongle.client.sendFragmentedData(uuidBytes);
         
-        toast.message("Waiting for License...", { description: "Reading 256 bytes..." });
+        toast.message("Waiting for License...", { description: `Reading ${profile.licenseLength} bytes...` });
         const licenseBuffer = await dongle.client.receiveFragmentedData();
-        
+        attempt.license = licenseBuffer;
+        attempt.counterAfter = await dongle.client.getCounter();
+        attempt.creditAnomaly = checkGeneration(attempt.counterBefore, attempt.counterAfter);
+        if (attempt.creditAnomaly) {
+            toastCreditAnomaly(attempt.creditAnomaly, attempt.counterBefore!, attempt.counterAfter!);
+        }
+
         const licenseHex = toHex(licenseBuffer);
         setLicenseData(licenseHex);
+        setIsReusedLicense(false);
         toast.success("License Generated Successfully!");
         setCurrentStep(4);
+        setGeneratedEntry(await recordAttempt(attempt, 'generated'));
+        // Writing retries this and stays blocked until it succeeds
+        await auditLicense('manual', attempt).catch((e: unknown) => toastError("License not in the audit log", e));
     } catch (e: unknown) {
         const message = e instanceof Error ? e.message : String(e);
-        toast.error("License Generation Failed: " + message);
+        await recordAttempt(attempt, 'failed', message);
+        toastError("License Generation Failed", e);
     } finally {
         setIsProcessing(false);
     }
   };
 
-  // Step 4: Write License (Manual)
-  const handleWriteLicense = () => {
-     toast.info("Please use the Target Device controls below to write the license manually.");
+  // Step 4: Write License
+  const handleWriteLicense = async () => {
+     if (!target.client || !target.connectionState.isConnected) {
+        toast.info("Connect the Target Device below to write the license, or use the manual controls.");
+        return;
+     }
+     setIsProcessing(true);
+     const attempt = emptyProcessData();
+     attempt.uuid = fromHex(uuidInput);
+     attempt.license = fromHex(licenseData);
+     attempt.reusedLicense = isReusedLicense;
+     try {
+        // Same gate as the automated process: never write a license that is not logged or fails the offline check
+        await auditLicense('manual', attempt);
+        if (!licenseCheckSkipped()) {
+            await assertLicenseAccepted(
+                attempt.license, attempt.uuid, resolvePublicKey(licensePublicKey), profile.licenseLength,
+                isReusedLicense ? 'Target' : 'Dongle'
+            );
+        }
+        await target.client.writeLicense(attempt.license, verifyMode);
+        await settleAttempt(attempt, 'success');
+        toast.success(verifyMode === 'off' ? "License written to Target Device" : "License written and verified on Target Device");
+     } catch (e: unknown) {
+        const message = e instanceof Error ? e.message : String(e);
+        await settleAttempt(attempt, failureOutcome(e), message);
+        toastError("License Write Failed", e);
+     } finally {
+        setIsProcessing(false);
+     }
   };
 
   const steps = [
@@ -156,8 +246,8 @@ export function LicenseFlow() {
     { id: 4, title: "Write License", icon: ArrowRight },
   ];
 
-  // Filter logs by device type for the target logs tab
-  const targetLogs = logs.filter(log => log.message.startsWith('[Target]'));
+  // Target logs tab
+  const targetLogs = logs.filter(log => log.device === 'Target');
 
   return (
     <div className="space-y-6">
@@ -190,7 +280,7 @@ export function LicenseFlow() {
             </CardTitle>
             <CardDescription>
                 {currentStep === 1 && "Connect the STM32 Nucleo Dongle via USB."}
-                {currentStep === 2 && "Read the 128-byte UUID from the target device."}
+                {currentStep === 2 && `Read the ${profile.uuidLength}-byte UUID from the target device.`}
                 {currentStep === 3 && "Send UUID to Dongle to receive the signed license."}
                 {currentStep === 4 && "Transfer the generated license back to the target device."}
             </CardDescription>
@@ -201,10 +291,10 @@ export function LicenseFlow() {
             {currentStep === 1 && (
                 <div className="space-y-4">
                     <div className="flex items-center gap-4 p-4 border rounded-lg bg-muted/50">
-                        <div className={`w-3 h-3 rounded-full ${dongle.connectionState.isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+                        <div className={`w-3 h-3 rounded-full ${dongle.connectionState.isConnected ? 'bg-green-500' : dongle.connectionState.isWaiting ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`} />
                         <div className="flex-1">
-                            <p className="font-medium">Status: {dongle.connectionState.isConnected ? 'Connected' : 'Disconnected'}</p>
-                            {dongle.connectionState.device && <p className="text-xs text-muted-foreground">{dongle.connectionState.device.productName}</p>}
+                            <p className="font-medium">Status: {dongle.connectionState.isConnected ? 'Connected' : dongle.connectionState.isWaiting ? 'Waiting for device...' : 'Disconnected'}</p>
+                            {dongle.client && <p className="text-xs text-muted-foreground">{dongle.client.productName}</p>}
                             {dongle.connectionState.error && <p className="text-xs text-red-500">{dongle.connectionState.error}</p>}
                         </div>
                         {!dongle.connectionState.isConnected ? (
@@ -234,7 +324,7 @@ export function LicenseFlow() {
                         </Button>
                     </div>
                     <div className="space-y-2">
-                        <Label>UUID (Hex, 128 bytes)</Label>
+                        <Label>UUID (Hex, {profile.uuidLength} bytes)</Label>
                         <textarea 
                             className="w-full h-32 p-2 text-xs font-mono border rounded-md"
                             value={uuidInput}
@@ -242,6 +332,9 @@ export function LicenseFlow() {
                         />
                          <p className="text-xs text-muted-foreground text-right">{uuidInput.length / 2} bytes</p>
                     </div>
+                    <p className="text-xs text-muted-foreground">
+                        Have a whole list of UUIDs? <Link href="/bulk" className="underline hover:text-primary">Generate in bulk</Link> from a CSV or JSON file.
+                    </p>
                     <Button className="w-full" onClick={handleConfirmUUID}>Next: Generate License</Button>
                 </div>
             )}
@@ -253,7 +346,7 @@ export function LicenseFlow() {
                         <Key className="h-4 w-4" />
                         <AlertTitle>Ready to Sign</AlertTitle>
                         <AlertDescription>
-                            We will send the UUID to the dongle in 3 fragments and wait for the 256-byte license.
+                            We will send the UUID to the dongle in fragments and wait for the {profile.licenseLength}-byte license.
                         </AlertDescription>
                      </Alert>
                      
@@ -261,6 +354,19 @@ export function LicenseFlow() {
                         <span className="font-bold text-muted-foreground">UUID:</span> {uuidInput.slice(0, 32)}...
                      </div>
 
+                     {issuedEntry && (
+                        <Alert>
+                            <History className="h-4 w-4" />
+                            <AlertTitle>UUID already licensed</AlertTitle>
+                            <AlertDescription className="space-y-2">
+                                <p>A license was issued for this UUID on {new Date(issuedEntry.timestamp).toLocaleString()}.</p>
+                                <Button size="sm" onClick={handleUseStoredLicense} disabled={isProcessing}>
+                                    Use Stored License
+                                </Button>
+                            </AlertDescription>
+                        </Alert>
+                     )}
+
                      <Button 
                         className="w-full" 
                         size="lg" 
@@ -272,6 +378,8 @@ export function LicenseFlow() {
                                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                                 Communicating...
                              </>
+                         ) : issuedEntry ? (
+                             "Force Regenerate (uses 1 credit)"
                          ) : (
                              "Generate License"
                          )}
@@ -282,7 +390,7 @@ export function LicenseFlow() {
             {/* Step 4: Write */}
             {currentStep === 4 && (
                 <div className="space-y-4">
-                    <Label>Generated License (256 bytes)</Label>
+                    <Label>{isReusedLicense ? "Stored License" : "Generated License"} ({profile.licenseLength} bytes)</Label>
                     <textarea 
                         readOnly
                         className="w-full h-32 p-2 text-xs font-mono border rounded-md bg-muted"
@@ -316,9 +424,9 @@ export function LicenseFlow() {
           </CardHeader>
           <CardContent className="space-y-4">
               <div className="flex items-center gap-4 p-4 border rounded-lg bg-muted/50">
-                  <div className={`w-3 h-3 rounded-full ${target.connectionState.isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+                  <div className={`w-3 h-3 rounded-full ${target.connectionState.isConnected ? 'bg-green-500' : target.connectionState.isWaiting ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`} />
                   <div className="flex-1">
-                      <p className="font-medium">Status: {target.connectionState.isConnected ? `Connected` : 'Disconnected'}</p>
+                      <p className="font-medium">Status: {target.connectionState.isConnected ? `Connected` : target.connectionState.isWaiting ? 'Waiting for device...' : 'Disconnected'}</p>
                   </div>
                   {!target.connectionState.isConnected ? (
                       <Button onClick={handleConnectTarget}>Connect Target Device</Button>
@@ -394,7 +502,7 @@ export function LicenseFlow() {
                                           <span className={log.type === 'tx' ? 'text-blue-500' : 'text-green-500'}>
                                               {log.type === 'tx' ? ' -> ' : ' <- '}
                                           </span>
-                                          {log.message.replace('[Target] ', '')}
+                                          {log.message}
                                       </div>
                                   ))}
                               </ScrollArea>
@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { OperatorRole, createOperator, listOperators, verifyOperator } from '@/lib/operators/accounts';
+import {
+  OperatorSession,
+  lockIfIdle,
+  lockSession,
+  restoreSession,
+  signIn,
+  signOut,
+  touchSession,
+  unlockSession,
+  useHasRole,
+  useOperatorSession,
+} from '@/lib/operators/session';
+import { useSettings } from '@/lib/settings';
+import { Lock, LogOut, ShieldAlert } from 'lucide-react';
+
+// ============================================================================
+// Sign-in Forms
+// ============================================================================
+
+function PinInput({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <Input
+      id={id}
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+    />
+  );
+}
+
+/** First run: nobody can sign in until an administrator exists. */
+function CreateAdminForm({ onCreated }: { onCreated: () => void }) {
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin !== confirm) {
+      setError('The PINs do not match');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      signIn(await createOperator(name, 'admin', pin));
+      onCreated();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Create Administrator</CardTitle>
+        <CardDescription>
+          No operators exist on this workstation yet. The administrator adds the other accounts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="admin-name">Name</Label>
+            <Input id="admin-name" value={name} onChange={e => setName(e.target.value)} autoFocus />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="admin-pin">PIN (4-12 digits)</Label>
+            <PinInput id="admin-pin" value={pin} onChange={setPin} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="admin-confirm">Repeat PIN</Label>
+            <PinInput id="admin-confirm" value={confirm} onChange={setConfirm} />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isBusy || !name.trim() || !pin}>
+            Create and Sign In
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Sign in, or with `locked` unlock the session of the operator who locked
+ * it. Anyone else has to sign that operator out first.
+ */
+function SignInForm({ locked }: { locked?: OperatorSession }) {
+  const [name, setName] = useState(locked?.name ?? '');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const account = await verifyOperator(name, pin);
+      if (!account || (locked && account.id !== locked.operatorId)) {
+        setError('Wrong name or PIN');
+        setPin('');
+        return;
+      }
+      if (locked) unlockSession();
+      else signIn(account);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {locked && <Lock className="w-4 h-4" />}
+          {locked ? 'Session Locked' : 'Operator Sign-In'}
+        </CardTitle>
+        <CardDescription>
+          {locked
+            ? `Enter the PIN of ${locked.name} to continue.`
+            : 'Sign in with your operator name and PIN.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {!locked && (
+            <div className="space-y-1">
+              <Label htmlFor="operator-name">Name</Label>
+              <Input id="operator-name" value={name} onChange={e => setName(e.target.value)} autoFocus />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="operator-pin">PIN</Label>
+            <PinInput id="operator-pin" value={pin} onChange={setPin} />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isBusy || !name.trim() || !pin}>
+            {locked ? 'Unlock' : 'Sign In'}
+          </Button>
+          {locked && (
+            <Button type="button" variant="outline" className="w-full" onClick={signOut}>
+              Sign Out {locked.name}
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// Operator Gate
+// ============================================================================
+
+/**
+ * Wraps the whole app: nothing renders until an operator signs in. A locked
+ * session covers the page instead of unmounting it, so a run in progress
+ * carries on behind the lock screen.
+ */
+export function OperatorGate({ children }: { children: React.ReactNode }) {
+  const session = useOperatorSession();
+  const { lockAfterMinutes } = useSettings();
+  const [hasAccounts, setHasAccounts] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    restoreSession()
+      .then(() => listOperators())
+      .then(accounts => setHasAccounts(accounts.length > 0))
+      .catch(() => setHasAccounts(true));
+  }, []);
+
+  const activeId = session && !session.locked ? session.operatorId : null;
+  useEffect(() => {
+    if (!activeId) return;
+
+    const timeoutMs = lockAfterMinutes * 60_000;
+    const check = () => lockIfIdle(timeoutMs);
+    check();
+    const timer = setInterval(check, 5000);
+    const events = ['pointerdown', 'keydown', 'wheel'] as const;
+    events.forEach(event => window.addEventListener(event, touchSession, { passive: true }));
+    return () => {
+      clearInterval(timer);
+      events.forEach(event => window.removeEventListener(event, touchSession));
+    };
+  }, [activeId, lockAfterMinutes]);
+
+  // Nothing renders before the stored session was checked against the accounts
+  if (hasAccounts === null) return null;
+  if (!session) {
+    return (
+      <main className="min-h-screen bg-background flex items-center justify-center p-4 font-sans">
+        {hasAccounts ? <SignInForm /> : <CreateAdminForm onCreated={() => setHasAccounts(true)} />}
+      </main>
+    );
+  }
+
+  return (
+    <>
+      {children}
+      <div className="fixed top-2 right-2 z-40 flex items-center gap-2 rounded-md border bg-background/90 px-2 py-1 text-xs shadow-sm">
+        <span className="font-medium">{session.name}</span>
+        <Badge variant="secondary">{session.role}</Badge>
+        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={lockSession} title="Lock">
+          <Lock className="w-3 h-3" />
+        </Button>
+        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={signOut} title="Sign out">
+          <LogOut className="w-3 h-3" />
+        </Button>
+      </div>
+      {session.locked && (
+        <div className="fixed inset-0 z-50 bg-background/95 flex items-center justify-center p-4 font-sans">
+          <SignInForm key={session.operatorId} locked={session} />
+        </div>
+      )}
+    </>
+  );
+}
+
+/** Renders `children` only for operators holding `role`. */
+export function RoleGate({ role, children }: { role: OperatorRole; children: React.ReactNode }) {
+  const allowed = useHasRole(role);
+  const session = useOperatorSession();
+  if (allowed) return <>{children}</>;
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center p-4 font-sans">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-4 h-4" /> Access Restricted
+          </CardTitle>
+          <CardDescription>
+            This page needs the {role} role. {session ? `${session.name} is signed in as ${session.role}.` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Link href="/auto-license">
+            <Button variant="outline">Automated Process</Button>
+          </Link>
+          <Button variant="outline" onClick={signOut}>Sign In as Someone Else</Button>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
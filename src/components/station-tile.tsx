@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { STEP_PROGRESS } from '@/lib/provisioning/license-process';
+import { StationUnitState, StationUnitStatus } from '@/lib/provisioning/station';
+import { Cpu, Loader2, PlayCircle, Unplug } from 'lucide-react';
+
+const STATUS_VARIANT: Record<StationUnitStatus, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  idle: 'outline',
+  running: 'secondary',
+  licensed: 'default',
+  failed: 'destructive',
+  skipped: 'secondary',
+};
+
+interface StationTileProps {
+  label: string;
+  state: StationUnitState;
+  onLicense: () => void;
+  /** Only offered on the simulator. */
+  onUnplug?: () => void;
+}
+
+export function StationTile({ label, state, onLicense, onUnplug }: StationTileProps) {
+  const isRunning = state.status === 'running';
+
+  return (
+    <Card className="gap-3 py-4">
+      <CardHeader className="px-4">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Cpu className="w-4 h-4" />
+          <span className="flex-1 truncate">{label}</span>
+          <Badge variant={STATUS_VARIANT[state.status]}>
+            {isRunning && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+            {isRunning ? state.step : state.status}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 space-y-2">
+        <div className="font-mono text-xs text-muted-foreground truncate">
+          {state.uuidHex ? `${state.uuidHex.slice(0, 24)}…` : 'UUID not read yet'}
+        </div>
+        <Progress value={state.status === 'licensed' ? 100 : STEP_PROGRESS[state.step]} />
+        {state.reusedLicense && state.status === 'licensed' && (
+          <p className="text-xs text-muted-foreground">Stored license re-written (no credit used)</p>
+        )}
+        {state.error && <p className="text-xs text-red-500">{state.error}</p>}
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="flex-1" disabled={isRunning} onClick={onLicense}>
+            <PlayCircle className="w-3 h-3 mr-1" />
+            {state.status === 'idle' ? 'License' : 'License Again'}
+          </Button>
+          {onUnplug && (
+            <Button size="sm" variant="ghost" disabled={isRunning} onClick={onUnplug} title="Unplug simulated unit">
+              <Unplug className="w-3 h-3" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useHasRole } from '@/lib/operators/session';
+import { lockVault, refreshVault, setUpVault, unlockVault, useVaultState } from '@/lib/storage/vault';
+import { KeyRound } from 'lucide-react';
+
+function PassphraseForm({ setup }: { setup: boolean }) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (setup && passphrase !== confirm) {
+      setError('The passphrases do not match');
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (setup) {
+        await setUpVault(passphrase);
+      } else if (!await unlockVault(passphrase)) {
+        setError('Wrong passphrase');
+        setPassphrase('');
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-4 h-4" /> {setup ? 'Set Up Encrypted Storage' : 'Unlock Storage'}
+        </CardTitle>
+        <CardDescription>
+          {setup
+            ? 'UUIDs and licenses are stored encrypted under a passphrase. Operators need it at the start of every session; without it the history cannot be read.'
+            : 'Enter the storage passphrase to read and record licenses.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="vault-passphrase">Passphrase{setup && ' (10+ characters)'}</Label>
+            <Input
+              id="vault-passphrase"
+              type="password"
+              autoComplete="off"
+              value={passphrase}
+              onChange={e => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </div>
+          {setup && (
+            <div className="space-y-1">
+              <Label htmlFor="vault-confirm">Repeat passphrase</Label>
+              <Input id="vault-confirm" type="password" autoComplete="off" value={confirm} onChange={e => setConfirm(e.target.value)} />
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isBusy || !passphrase}>
+            {isBusy ? (setup ? 'Encrypting...' : 'Unlocking...') : (setup ? 'Encrypt Storage' : 'Unlock')}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Renders `children` only while the storage is unlocked, so no flow can
+ * issue a license it could not record. Signing out (which unmounts the
+ * gate) locks the storage again.
+ */
+export function VaultGate({ children }: { children: React.ReactNode }) {
+  const state = useVaultState();
+  const isAdmin = useHasRole('admin');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refreshVault().catch(e => setError((e as Error).message));
+    return () => lockVault();
+  }, []);
+
+  if (state === 'unlocked') return <>{children}</>;
+
+  let content: React.ReactNode = null;
+  if (error) {
+    content = <p className="text-sm text-destructive">Storage is unavailable: {error}</p>;
+  } else if (state === 'locked') {
+    content = <PassphraseForm setup={false} />;
+  } else if (state === 'uninitialized') {
+    content = isAdmin ? <PassphraseForm setup /> : (
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Storage Not Set Up</CardTitle>
+          <CardDescription>
+            An administrator has to choose the storage passphrase before licenses can be recorded on this workstation.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-background flex items-center justify-center p-4 font-sans">
+      {content}
+    </main>
+  );
+}
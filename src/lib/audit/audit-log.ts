@@ -0,0 +1,152 @@
+import { STORES, withStore } from '@/lib/storage/db';
+import { Mutex } from '@/lib/hid/mutex';
+import { currentOperator } from '@/lib/operators/session';
+import { uuidTag } from '@/lib/storage/vault';
+import { toHex } from '@/lib/utils';
+import {
+  AUDIT_BUNDLE_FORMAT,
+  AUDIT_GENESIS_HASH,
+  AuditBundle,
+  AuditChainReport,
+  AuditRecord,
+  auditRecordHash,
+  bundleSignedData,
+  publicKeyFingerprint,
+  sha256Hex,
+  verifyAuditChain,
+} from './verify';
+
+// ============================================================================
+// Audit Log (append-only, in IndexedDB)
+// ============================================================================
+//
+// One record per license a dongle issued, whatever became of it afterwards.
+// There is deliberately no way to edit or delete records; see verify.ts for
+// how tampering shows up.
+
+export interface AuditEvent {
+  source: string;
+  uuid: Uint8Array;
+  license: Uint8Array;
+  dongle: string | null;
+  counterBefore: number | null;
+  counterAfter: number | null;
+}
+
+// Reading the head and adding the next record must not interleave
+const appendLock = new Mutex();
+
+async function lastRecord(): Promise<AuditRecord | null> {
+  let last: AuditRecord | null = null;
+  await withStore(STORES.AUDIT, 'readonly', store => {
+    const request = store.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      last = request.result?.value ?? null;
+    };
+  });
+  return last;
+}
+
+/**
+ * Append a record for an issued license. A license already in the log
+ * (e.g. re-written after a failed write) is not added again: returns null.
+ * Needs the unlocked vault to tag the UUID; throws VaultLockedError otherwise.
+ */
+export function appendAuditRecord(event: AuditEvent): Promise<AuditRecord | null> {
+  return appendLock.runExclusive(async () => {
+    const licenseHash = await sha256Hex(event.license);
+    const existing = await withStore<IDBValidKey | undefined>(STORES.AUDIT, 'readonly', store =>
+      store.index('licenseHash').getKey(licenseHash)
+    );
+    if (existing !== undefined) return null;
+
+    const previous = await lastRecord();
+    const fields: Omit<AuditRecord, 'hash'> = {
+      seq: (previous?.seq ?? 0) + 1,
+      timestamp: Date.now(),
+      source: event.source,
+      uuidTag: await uuidTag(toHex(event.uuid)),
+      licenseHash,
+      dongle: event.dongle,
+      counterBefore: event.counterBefore,
+      counterAfter: event.counterAfter,
+      operator: currentOperator()?.name ?? null,
+      prevHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+    };
+    const record = { ...fields, hash: await auditRecordHash(fields) };
+
+    // add(), not put(): another tab appending the same seq fails instead of overwriting
+    await withStore(STORES.AUDIT, 'readwrite', store => store.add(record));
+    return record;
+  });
+}
+
+/** Every record in sequence order. */
+export async function listAuditRecords(): Promise<AuditRecord[]> {
+  return withStore<AuditRecord[]>(STORES.AUDIT, 'readonly', store => store.getAll());
+}
+
+export async function verifyAuditLog(): Promise<AuditChainReport> {
+  return verifyAuditChain(await listAuditRecords());
+}
+
+// ============================================================================
+// Workstation Signing Key
+// ============================================================================
+//
+// Generated on first export and kept in IndexedDB. The private key is not
+// extractable, so it never leaves the browser profile; the fingerprint of
+// the public key is what an auditor checks a bundle against.
+
+interface StoredKey {
+  id: 'audit-signing';
+  privateKey: CryptoKey;
+  publicKey: string;
+  createdAt: number;
+}
+
+function toPem(der: ArrayBuffer): string {
+  const base64 = btoa(String.fromCharCode(...new Uint8Array(der)));
+  return ['-----BEGIN PUBLIC KEY-----', ...(base64.match(/.{1,64}/g) ?? []), '-----END PUBLIC KEY-----'].join('\n');
+}
+
+async function signingKey(): Promise<StoredKey> {
+  const stored = await withStore<StoredKey | undefined>(STORES.KEYS, 'readonly', store => store.get('audit-signing'));
+  if (stored) return stored;
+
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+  const key: StoredKey = {
+    id: 'audit-signing',
+    privateKey: pair.privateKey,
+    publicKey: toPem(await crypto.subtle.exportKey('spki', pair.publicKey)),
+    createdAt: Date.now(),
+  };
+  await withStore(STORES.KEYS, 'readwrite', store => store.put(key));
+  return key;
+}
+
+/** Fingerprint of this workstation's signing key, for auditors to pin. */
+export async function workstationFingerprint(): Promise<string> {
+  return publicKeyFingerprint((await signingKey()).publicKey);
+}
+
+/** The whole log, signed with the workstation key. */
+export async function exportAuditBundle(): Promise<AuditBundle> {
+  const key = await signingKey();
+  const records = await listAuditRecords();
+  const last = records[records.length - 1];
+
+  const unsigned: Omit<AuditBundle, 'signature'> = {
+    format: AUDIT_BUNDLE_FORMAT,
+    exportedAt: new Date().toISOString(),
+    publicKey: key.publicKey,
+    records,
+    head: last ? { seq: last.seq, hash: last.hash } : null,
+  };
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key.privateKey,
+    bundleSignedData(unsigned).slice()
+  );
+  return { ...unsigned, signature: toHex(new Uint8Array(signature)) };
+}
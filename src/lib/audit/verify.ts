@@ -0,0 +1,204 @@
+// ============================================================================
+// Audit Chain Verification
+// ============================================================================
+//
+// Standalone on purpose: no imports, WebCrypto only (browsers, Node 20+), so
+// this file can be handed to an auditor together with an exported bundle.
+//
+// Every record carries the SHA-256 of the record before it, so editing,
+// removing or reordering a record breaks the chain from that point on. A
+// bundle is signed over its last hash, which pins every record before it.
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_BUNDLE_FORMAT = 'oro-audit-bundle/1';
+
+/** One issued license. Hex is lowercase throughout. */
+export interface AuditRecord {
+  /** 1-based and consecutive. */
+  seq: number;
+  timestamp: number;
+  /** The flow that issued the license ('auto', 'station', 'bulk', ...). */
+  source: string;
+  /**
+   * HMAC of the UUID under the storage key (see `uuidTag` in the vault): the
+   * log stays readable without the passphrase, so it never holds the UUID.
+   */
+  uuidTag: string;
+  /** SHA-256 of the license bytes; the license itself stays in the ledger. */
+  licenseHash: string;
+  dongle: string | null;
+  counterBefore: number | null;
+  counterAfter: number | null;
+  operator: string | null;
+  /** `hash` of the previous record; AUDIT_GENESIS_HASH for the first. */
+  prevHash: string;
+  hash: string;
+}
+
+export type AuditIssueKind = 'gap' | 'edited' | 'broken-link';
+
+export interface AuditIssue {
+  seq: number;
+  kind: AuditIssueKind;
+  message: string;
+}
+
+export interface AuditChainReport {
+  ok: boolean;
+  count: number;
+  /** Last record, or null for an empty chain. */
+  head: { seq: number; hash: string } | null;
+  issues: AuditIssue[];
+}
+
+export interface AuditBundle {
+  format: typeof AUDIT_BUNDLE_FORMAT;
+  exportedAt: string;
+  /** Workstation signing key, SPKI PEM (ECDSA P-256). */
+  publicKey: string;
+  records: AuditRecord[];
+  head: { seq: number; hash: string } | null;
+  /** ECDSA P-256 / SHA-256 over `bundleSignedData`, r || s as hex. */
+  signature: string;
+}
+
+export interface AuditBundleReport {
+  chain: AuditChainReport;
+  signatureValid: boolean;
+  /** The bundle's `head` is the last record of its chain. */
+  headMatches: boolean;
+  /** SHA-256 of the public key, to compare with the one published for the workstation. */
+  fingerprint: string;
+  ok: boolean;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes.slice())));
+}
+
+/** Hash of every field but `hash`, in a fixed order. */
+export function auditRecordHash(record: Omit<AuditRecord, 'hash'>): Promise<string> {
+  return sha256Hex(JSON.stringify([
+    record.seq,
+    record.timestamp,
+    record.source,
+    record.uuidTag,
+    record.licenseHash,
+    record.dongle,
+    record.counterBefore,
+    record.counterAfter,
+    record.operator,
+    record.prevHash,
+  ]));
+}
+
+/** Check records in the order given. Each record is reported at most once. */
+export async function verifyAuditChain(records: AuditRecord[]): Promise<AuditChainReport> {
+  const issues: AuditIssue[] = [];
+
+  let previous: AuditRecord | null = null;
+  for (const record of records) {
+    const expectedSeq = previous ? previous.seq + 1 : 1;
+    const expectedPrev = previous ? previous.hash : AUDIT_GENESIS_HASH;
+
+    if (await auditRecordHash(record) !== record.hash) {
+      issues.push({ seq: record.seq, kind: 'edited', message: 'Contents do not match the record hash' });
+    } else if (record.seq !== expectedSeq) {
+      issues.push({
+        seq: record.seq,
+        kind: 'gap',
+        message: record.seq > expectedSeq
+          ? (record.seq - 1 > expectedSeq ? `Records ${expectedSeq}-${record.seq - 1} missing` : `Record ${expectedSeq} missing`)
+          : `Out of sequence after record ${previous?.seq}`,
+      });
+    } else if (record.prevHash !== expectedPrev) {
+      issues.push({ seq: record.seq, kind: 'broken-link', message: 'Does not link to the previous record' });
+    }
+    previous = record;
+  }
+
+  return {
+    ok: issues.length === 0,
+    count: records.length,
+    head: previous ? { seq: previous.seq, hash: previous.hash } : null,
+    issues,
+  };
+}
+
+// ============================================================================
+// Bundles
+// ============================================================================
+
+const SIGN_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+/** What the bundle signature covers. */
+export function bundleSignedData(bundle: Omit<AuditBundle, 'signature'>): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    bundle.format,
+    bundle.exportedAt,
+    bundle.publicKey,
+    bundle.records.length,
+    bundle.head?.seq ?? 0,
+    bundle.head?.hash ?? AUDIT_GENESIS_HASH,
+  ]));
+}
+
+function pemToDer(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s/g, '');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+export async function publicKeyFingerprint(pem: string): Promise<string> {
+  return sha256Hex(pemToDer(pem));
+}
+
+/**
+ * Verify a bundle offline: its chain, that the signed head is the chain's
+ * last record, and the signature. Whether the key belongs to the workstation
+ * is up to the caller: compare `fingerprint` with the published one.
+ */
+export async function verifyAuditBundle(bundle: AuditBundle): Promise<AuditBundleReport> {
+  if (bundle.format !== AUDIT_BUNDLE_FORMAT || !Array.isArray(bundle.records)) {
+    throw new Error(`Not an audit bundle (expected format ${AUDIT_BUNDLE_FORMAT})`);
+  }
+
+  const chain = await verifyAuditChain(bundle.records);
+  const headMatches = chain.head?.seq === bundle.head?.seq && chain.head?.hash === bundle.head?.hash;
+
+  let signatureValid = false;
+  try {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      pemToDer(bundle.publicKey).slice(),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    signatureValid = await crypto.subtle.verify(
+      SIGN_ALGORITHM,
+      key,
+      fromHex(bundle.signature).slice(),
+      bundleSignedData(bundle).slice()
+    );
+  } catch {
+    // Unreadable key or signature
+  }
+
+  return {
+    chain,
+    signatureValid,
+    headMatches,
+    fingerprint: await publicKeyFingerprint(bundle.publicKey).catch(() => ''),
+    ok: chain.ok && headMatches && signatureValid,
+  };
+}
@@ -0,0 +1,145 @@
+import { AbstractHIDClient } from './hid-client';
+import { HIDTransport, HIDTransportFactory } from './transport';
+import { UserCancelledPickerError } from './errors';
+import { Mutex } from './mutex';
+
+// ============================================================================
+// Device Pool
+// ============================================================================
+
+export interface PooledDevice<C extends AbstractHIDClient> {
+  id: string;
+  client: C;
+  transport: HIDTransport;
+  productName: string | null;
+  serialNumber: string | null;
+}
+
+/** Operator-facing name: serial number when known, else product name. */
+export function deviceLabel(device: Pick<PooledDevice<AbstractHIDClient>, 'productName' | 'serialNumber'>): string {
+  return device.serialNumber ?? device.productName ?? 'Unknown device';
+}
+
+/**
+ * Every attached device of one kind, each with its own client. Devices are
+ * dropped when unplugged and re-attached when a permitted one is plugged in.
+ * Entries are immutable snapshots so the pool can back useSyncExternalStore.
+ */
+export class DevicePool<C extends AbstractHIDClient, E extends PooledDevice<C> = PooledDevice<C>> {
+  protected entries: E[] = [];
+  private listeners = new Set<() => void>();
+  // Attaching is serialized so concurrent connect events never grab the same device twice
+  private attachLock = new Mutex();
+
+  constructor(
+    private readonly transports: HIDTransportFactory,
+    private readonly createClient: (transport: HIDTransport) => C,
+    private readonly filters: HIDDeviceFilter[],
+    readonly deviceName: string
+  ) {}
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): E[] => this.entries;
+
+  /** Add a device through the browser picker. */
+  add(): Promise<E> {
+    return this.attachLock.runExclusive(async () => {
+      const transport = this.transports.create();
+      if (!transport) {
+        throw new UserCancelledPickerError(this.deviceName);
+      }
+
+      const client = this.createClient(transport);
+      await client.connect();
+      return this.register(client, transport);
+    });
+  }
+
+  /** Attach every permitted device that is plugged in but not pooled yet. */
+  reconnectAll(): Promise<E[]> {
+    return this.attachLock.runExclusive(async () => {
+      const attached: E[] = [];
+      for (;;) {
+        const transport = this.transports.create();
+        if (!transport) break;
+
+        const client = this.createClient(transport);
+        if (!await client.reconnect()) break;
+        attached.push(await this.register(client, transport));
+      }
+      return attached;
+    });
+  }
+
+  /** Subscribe to a permitted device being plugged in. */
+  onDeviceAvailable(listener: () => void): () => void {
+    return this.transports.addConnectListener(this.filters, listener);
+  }
+
+  async remove(id: string): Promise<void> {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return;
+
+    this.drop(id);
+    await entry.client.disconnect();
+  }
+
+  /** Disconnect every device, e.g. before the pool is replaced by one for another profile. */
+  async clear(): Promise<void> {
+    const entries = this.entries;
+    entries.forEach(entry => this.drop(entry.id));
+    await Promise.all(entries.map(entry => entry.client.disconnect()));
+  }
+
+  /** Build the entry for a newly attached device. Subclasses add their own fields. */
+  protected createEntry(device: PooledDevice<C>): E {
+    return device as E;
+  }
+
+  /** Called once an entry is in the pool, e.g. to read initial device state. */
+  protected async onRegistered(_entry: E): Promise<void> {}
+
+  /** Called once an entry has left the pool, e.g. to release what `onRegistered` set up. */
+  protected onDropped(_entry: E): void {}
+
+  private async register(client: C, transport: HIDTransport): Promise<E> {
+    const entry = this.createEntry({
+      id: crypto.randomUUID(),
+      client,
+      transport,
+      productName: client.productName,
+      serialNumber: client.serialNumber,
+    });
+    this.entries = [...this.entries, entry];
+
+    const removeListener = client.onDisconnect(() => {
+      removeListener();
+      this.drop(entry.id);
+    });
+
+    this.notify();
+    await this.onRegistered(entry);
+    return this.entries.find(e => e.id === entry.id) ?? entry;
+  }
+
+  protected update(id: string, patch: Partial<E>) {
+    this.entries = this.entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry));
+    this.notify();
+  }
+
+  private drop(id: string) {
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return;
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.onDropped(entry);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,93 @@
+import { DongleClient } from './hid-client';
+import { HIDTransportFactory } from './transport';
+import { DevicePool, PooledDevice, deviceLabel } from './device-pool';
+import { LogEntry } from './types';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE, dongleFilters } from './profiles';
+import { describeError } from './errors';
+
+// ============================================================================
+// Dongle Pool
+// ============================================================================
+
+export interface PooledDongle extends PooledDevice<DongleClient> {
+  /** Last value read from the dongle, null until the first successful read. */
+  counter: number | null;
+  /** Why the last counter read failed; cleared by the next successful read. */
+  counterError: string | null;
+}
+
+/**
+ * Every license dongle attached to this station. Licenses are drawn from the
+ * first dongle with credits left; when it runs out the next one takes over.
+ */
+export class DonglePool extends DevicePool<DongleClient, PooledDongle> {
+  // Counter subscriptions by entry id, released when the dongle leaves the pool
+  private counterSubscriptions = new Map<string, () => void>();
+
+  constructor(
+    transports: HIDTransportFactory,
+    private readonly onLog: (entry: LogEntry) => void,
+    profile: DeviceProfile = DEFAULT_DEVICE_PROFILE
+  ) {
+    super(transports, transport => new DongleClient(onLog, transport, profile), dongleFilters(profile), 'Dongle');
+  }
+
+  /** Sum of the last-read counters. Dongles never read count as zero. */
+  get totalCredits(): number {
+    return this.entries.reduce((sum, entry) => sum + Math.max(entry.counter ?? 0, 0), 0);
+  }
+
+  /**
+   * The dongle to draw the next license from: one known to have credits,
+   * else one whose counter has not been read yet. Null when all are empty.
+   */
+  select(exclude?: DongleClient): PooledDongle | null {
+    const candidates = this.entries.filter(entry => entry.client !== exclude);
+    return candidates.find(entry => entry.counter !== null && entry.counter > 0)
+      ?? candidates.find(entry => entry.counter === null)
+      ?? null;
+  }
+
+  /**
+   * Re-read every counter. Dongles that fail to answer keep their last value
+   * and are marked with the error.
+   */
+  async refreshCounters(): Promise<void> {
+    for (const entry of this.entries) {
+      await this.readCounter(entry, 'Counter refresh');
+    }
+  }
+
+  protected createEntry(device: PooledDevice<DongleClient>): PooledDongle {
+    return { ...device, counter: null, counterError: null };
+  }
+
+  protected async onRegistered(entry: PooledDongle): Promise<void> {
+    this.counterSubscriptions.set(
+      entry.id,
+      entry.client.addCounterListener(counter => this.update(entry.id, { counter, counterError: null }))
+    );
+    await this.readCounter(entry, 'Initial counter read');
+  }
+
+  protected onDropped(entry: PooledDongle): void {
+    this.counterSubscriptions.get(entry.id)?.();
+    this.counterSubscriptions.delete(entry.id);
+  }
+
+  private async readCounter(entry: PooledDongle, action: string): Promise<void> {
+    try {
+      await entry.client.getCounter();
+    } catch (e) {
+      const { title } = describeError(e);
+      this.update(entry.id, { counterError: title });
+      this.onLog({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        type: 'error',
+        message: `${action} failed for ${deviceLabel(entry)}: ${title}`,
+        device: 'Dongle',
+      });
+    }
+  }
+}
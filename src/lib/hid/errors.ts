@@ -0,0 +1,213 @@
+// ============================================================================
+// HID Error Hierarchy
+// ============================================================================
+
+export type HIDErrorCode =
+  | 'NOT_SUPPORTED'
+  | 'USER_CANCELLED_PICKER'
+  | 'DEVICE_IN_USE'
+  | 'DEVICE_NOT_FOUND'
+  | 'NOT_CONNECTED'
+  | 'TIMEOUT'
+  | 'SHORT_RESPONSE'
+  | 'PROTOCOL_VIOLATION'
+  | 'INVALID_PAYLOAD'
+  | 'COUNTER_EXHAUSTED'
+  | 'VERIFICATION_FAILED'
+  | 'LICENSE_REJECTED'
+  | 'CANCELLED';
+
+/** Device the error relates to, as named by the client ('Dongle', 'Target'). */
+export type HIDErrorDevice = string | null;
+
+/**
+ * Base class for every failure raised by the HID layer. `code` is stable and
+ * safe to match on; `hint` is a short operator-facing remediation.
+ */
+export abstract class HIDError extends Error {
+  abstract readonly code: HIDErrorCode;
+  abstract readonly hint: string;
+
+  constructor(
+    message: string,
+    readonly device: HIDErrorDevice = null,
+    readonly reportId: number | null = null
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+function hex(reportId: number): string {
+  return `0x${reportId.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
+export class WebHIDUnsupportedError extends HIDError {
+  readonly code = 'NOT_SUPPORTED';
+  readonly hint = 'Open the tool in Chrome or Edge on a desktop machine.';
+
+  constructor() {
+    super("WebHID is not supported in this browser.");
+  }
+}
+
+export class UserCancelledPickerError extends HIDError {
+  readonly code = 'USER_CANCELLED_PICKER';
+  readonly hint = 'Select the device in the browser prompt. If it is not listed, check the USB cable.';
+
+  constructor(device: HIDErrorDevice = null) {
+    super("No device selected.", device);
+  }
+}
+
+export class DeviceInUseError extends HIDError {
+  readonly code = 'DEVICE_IN_USE';
+  readonly hint = 'That device is already connected. Pick a different one in the browser prompt.';
+
+  constructor(device: HIDErrorDevice = null) {
+    super("Device already connected.", device);
+  }
+}
+
+/** No matching device is plugged in; raised where there is no picker to ask (the CLI). */
+export class DeviceNotFoundError extends HIDError {
+  readonly code = 'DEVICE_NOT_FOUND';
+  readonly hint = 'Check the USB cable and that the device profile matches the hardware.';
+
+  constructor(device: HIDErrorDevice = null) {
+    super("No matching device found.", device);
+  }
+}
+
+export class NotConnectedError extends HIDError {
+  readonly code = 'NOT_CONNECTED';
+  readonly hint: string;
+
+  constructor(device: HIDErrorDevice = null, reportId: number | null = null) {
+    super("Device not connected", device, reportId);
+    this.hint = device === 'Target'
+      ? 'Replug the target and press Connect.'
+      : device === 'Dongle'
+        ? 'Replug the license dongle and press Connect.'
+        : 'Reconnect the device.';
+  }
+}
+
+export class TimeoutError extends HIDError {
+  readonly code = 'TIMEOUT';
+  readonly hint: string;
+
+  constructor(device: HIDErrorDevice, reportId: number, readonly timeoutMs: number) {
+    super(`Timeout waiting for packet [${reportId.toString(16)}]`, device, reportId);
+    this.hint = device === 'Target'
+      ? 'The target did not answer. Replug the target and retry.'
+      : 'The dongle did not answer. Check that it has credits, then replug it and retry.';
+  }
+}
+
+export class ShortResponseError extends HIDError {
+  readonly code = 'SHORT_RESPONSE';
+  readonly hint = 'The device sent incomplete data. Replug it and retry; if it persists, check the firmware version.';
+
+  constructor(device: HIDErrorDevice, reportId: number, readonly expected: number, readonly actual: number) {
+    super(`Response ${hex(reportId)} too short: got ${actual}/${expected} bytes`, device, reportId);
+  }
+}
+
+export class ProtocolViolationError extends HIDError {
+  readonly code = 'PROTOCOL_VIOLATION';
+  readonly hint = 'The transfer was corrupted. Retry; if it happens again, replug the dongle.';
+}
+
+export class InvalidPayloadError extends HIDError {
+  readonly code = 'INVALID_PAYLOAD';
+  readonly hint = 'Check the data entered: UUID and license sizes are set by the active device profile.';
+}
+
+/**
+ * No dongle with credits to generate on. `counter` is null when the counter
+ * could not be read at all, which says nothing about the credits left.
+ */
+export class CounterExhaustedError extends HIDError {
+  readonly code = 'COUNTER_EXHAUSTED';
+  readonly hint: string;
+
+  constructor(readonly counter: number | null = 0) {
+    super(counter === null ? 'Dongle counter could not be read' : `Dongle out of credits (counter ${counter})`, 'Dongle');
+    this.hint = counter === null
+      ? 'The dongle did not report its credit counter. Replug the dongle and retry; nothing was generated.'
+      : 'The dongle is out of credits. Swap in a dongle with remaining credits.';
+  }
+}
+
+export class LicenseVerificationError extends HIDError {
+  readonly code = 'VERIFICATION_FAILED';
+  readonly hint = 'The target did not store the license. Replug the target and re-run: the same license is re-written without spending a credit.';
+
+  constructor(message: string, readonly mode: 'ack' | 'readback', reportId: number | null = null) {
+    super(message, 'Target', reportId);
+  }
+}
+
+/**
+ * The license failed the offline check; it was not written. `device` is the
+ * dongle for a license it just generated, the target for one from storage.
+ */
+export class LicenseRejectedError extends HIDError {
+  readonly code = 'LICENSE_REJECTED';
+  readonly hint = 'Nothing was written to the target. Check the signing key in the License Inspector and resume to check the same license again. A new license costs another credit; if it fails too, swap the dongle.';
+
+  constructor(readonly failures: string[], device: HIDErrorDevice = null) {
+    super(`License rejected before write: ${failures.join('; ')}`, device);
+  }
+}
+
+/** Aborted through the operation's AbortSignal. */
+export class OperationCancelledError extends HIDError {
+  readonly code = 'CANCELLED';
+  readonly hint = 'Cancelled by the operator. Resume to continue from the interrupted step.';
+
+  constructor(device: HIDErrorDevice = null) {
+    super('Operation cancelled', device);
+  }
+}
+
+// ============================================================================
+// Operator Messages
+// ============================================================================
+//
+// Titles never name the device: `describeError` puts the failing one in front.
+
+export interface ErrorDescription {
+  code: HIDErrorCode | null;
+  title: string;
+  hint: string | null;
+}
+
+const TITLES: Record<HIDErrorCode, string> = {
+  NOT_SUPPORTED: 'Browser not supported',
+  USER_CANCELLED_PICKER: 'No device selected',
+  DEVICE_IN_USE: 'Device already connected',
+  DEVICE_NOT_FOUND: 'No device found',
+  NOT_CONNECTED: 'Device not connected',
+  TIMEOUT: 'Device did not respond',
+  SHORT_RESPONSE: 'Incomplete response',
+  PROTOCOL_VIOLATION: 'Corrupted transfer',
+  INVALID_PAYLOAD: 'Invalid data',
+  COUNTER_EXHAUSTED: 'Out of credits',
+  VERIFICATION_FAILED: 'License not confirmed',
+  LICENSE_REJECTED: 'License rejected before write',
+  CANCELLED: 'Cancelled',
+};
+
+/** Map any thrown value to a title and remediation suitable for a toast. */
+export function describeError(err: unknown): ErrorDescription {
+  if (err instanceof HIDError) {
+    const device = err.device ? `${err.device}: ` : '';
+    const title = err instanceof CounterExhaustedError && err.counter === null ? 'Counter unreadable' : TITLES[err.code];
+    return { code: err.code, title: `${device}${title}`, hint: err.hint };
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  return { code: null, title: message, hint: null };
+}
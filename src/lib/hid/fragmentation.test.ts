@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FragmentError, FragmentErrorKind, Reassembler, fragment, reassemble } from './fragmentation';
+import { fromHex, toHex } from '@/lib/utils';
+import captures from './__fixtures__/fragmented-transfers.json';
+
+// Dongle → host license transfers captured from the simulator (report 0x01
+// payloads, default 64-byte reports), plus copies broken the ways a real
+// transfer breaks: a lost packet, reordering, a repeat, too many bytes.
+
+interface CapturedTransfer {
+  name: string;
+  sequence: boolean;
+  expectedLength: number;
+  packets: string[];
+  expect: 'complete' | FragmentErrorKind;
+}
+
+const transfers = captures.transfers as CapturedTransfer[];
+
+function reassembleCapture(transfer: CapturedTransfer): Uint8Array {
+  return reassemble(transfer.packets.map(fromHex), transfer.expectedLength, { sequence: transfer.sequence });
+}
+
+describe('reassemble (captured transfers)', () => {
+  for (const transfer of transfers) {
+    it(transfer.name, () => {
+      if (transfer.expect === 'complete') {
+        const license = transfer.sequence ? captures.sequencedLicense : captures.license;
+        assert.equal(toHex(reassembleCapture(transfer)), license);
+        return;
+      }
+      assert.throws(() => reassembleCapture(transfer), (e: unknown) => {
+        assert.ok(e instanceof FragmentError);
+        assert.equal(e.kind, transfer.expect);
+        assert.equal(e.expectedLength, transfer.expectedLength);
+        return true;
+      });
+    });
+  }
+
+  it('keeps the bytes accepted before an out-of-order packet', () => {
+    const transfer = transfers.find(t => t.expect === 'sequence')!;
+    try {
+      reassembleCapture(transfer);
+      assert.fail('expected a FragmentError');
+    } catch (e) {
+      assert.ok(e instanceof FragmentError);
+      assert.equal(e.packetIndex, 1);
+      assert.equal(toHex(e.partial), captures.sequencedLicense.slice(0, 61 * 2));
+    }
+  });
+});
+
+describe('Reassembler', () => {
+  it('reports an underrun with the byte count when asked for an incomplete result', () => {
+    const reassembler = new Reassembler(256);
+    assert.equal(reassembler.push(fromHex(transfers[0].packets[0])), false);
+    assert.throws(() => reassembler.result(), /Underrun: transfer ended after 62\/256 bytes in 1 packets/);
+  });
+
+  it('rejects a packet whose length byte exceeds the packet', () => {
+    const packet = new Uint8Array(10);
+    packet[0] = 20;
+    assert.throws(() => new Reassembler(256).push(packet), (e: unknown) => e instanceof FragmentError && e.kind === 'malformed');
+  });
+
+  it('rejects a zero-length packet', () => {
+    assert.throws(() => new Reassembler(256).push(new Uint8Array(63)), (e: unknown) => e instanceof FragmentError && e.kind === 'malformed');
+  });
+});
+
+describe('fragment', () => {
+  it('splits a 128-byte UUID into 62 + 62 + 4 by default', () => {
+    const packets = fragment(new Uint8Array(128));
+    assert.deepEqual(packets.map(packet => packet[0]), [62, 62, 4]);
+    assert.ok(packets.every(packet => packet.length === 63));
+  });
+
+  it('numbers packets when sequence bytes are on', () => {
+    const packets = fragment(new Uint8Array(256), { sequence: true });
+    assert.deepEqual(packets.map(packet => [packet[0], packet[1]]), [[61, 0], [61, 1], [61, 2], [61, 3], [12, 4]]);
+  });
+
+  it('round-trips arbitrary sizes through the reassembler', () => {
+    for (const [size, options] of [[1, {}], [300, { chunkSize: 16 }], [1000, { packetSize: 31, sequence: true }]] as const) {
+      const payload = new Uint8Array(size).map((_, i) => i * 7);
+      assert.deepEqual(reassemble(fragment(payload, options), size, options), payload);
+    }
+  });
+});
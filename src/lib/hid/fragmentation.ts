@@ -0,0 +1,177 @@
+import { ProtocolViolationError } from './errors';
+
+// ============================================================================
+// Fragmented Transfer Protocol
+// ============================================================================
+//
+// Payloads larger than one report are split into packets of
+//   [Length (1B)] [Sequence (1B), optional] [Data (Length)] [Zero padding]
+// The sequence byte starts at 0 and increments per packet (mod 256). It is
+// only present when both sides have been built with sequence support.
+
+export interface FragmentOptions {
+  /** Size of every packet, header included. Defaults to 63 (64-byte report minus ID). */
+  packetSize?: number;
+  /** Max data bytes per packet. Defaults to whatever fits after the header. */
+  chunkSize?: number;
+  /** Include a sequence byte after the length byte. */
+  sequence?: boolean;
+}
+
+const DEFAULT_PACKET_SIZE = 63;
+
+function headerSize(options: FragmentOptions): number {
+  return options.sequence ? 2 : 1;
+}
+
+function maxChunkSize(options: FragmentOptions): number {
+  const packetSize = options.packetSize ?? DEFAULT_PACKET_SIZE;
+  const available = Math.min(packetSize - headerSize(options), 0xff);
+  return Math.min(options.chunkSize ?? available, available);
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export type FragmentErrorKind = 'overrun' | 'underrun' | 'sequence' | 'malformed';
+
+/** Reassembly failed. `partial` holds every byte accepted so far, for diagnostics. */
+export class FragmentError extends ProtocolViolationError {
+  constructor(
+    message: string,
+    readonly kind: FragmentErrorKind,
+    readonly partial: Uint8Array,
+    readonly expectedLength: number,
+    readonly packetIndex: number
+  ) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// Fragmenter
+// ============================================================================
+
+export function fragment(payload: Uint8Array, options: FragmentOptions = {}): Uint8Array[] {
+  const packetSize = options.packetSize ?? DEFAULT_PACKET_SIZE;
+  const header = headerSize(options);
+  const chunkSize = maxChunkSize(options);
+
+  if (chunkSize <= 0) {
+    throw new Error(`Packet size ${packetSize} leaves no room for data`);
+  }
+
+  const packets: Uint8Array[] = [];
+  for (let offset = 0, seq = 0; offset < payload.length; offset += chunkSize, seq++) {
+    const chunk = payload.slice(offset, offset + chunkSize);
+    const packet = new Uint8Array(packetSize);
+    packet[0] = chunk.length;
+    if (options.sequence) {
+      packet[1] = seq & 0xff;
+    }
+    packet.set(chunk, header);
+    packets.push(packet);
+  }
+
+  return packets;
+}
+
+// ============================================================================
+// Reassembler
+// ============================================================================
+
+export class Reassembler {
+  private buffer: Uint8Array;
+  private received = 0;
+  private packetIndex = 0;
+
+  constructor(readonly expectedLength: number, private readonly options: FragmentOptions = {}) {
+    this.buffer = new Uint8Array(expectedLength);
+  }
+
+  get isComplete(): boolean {
+    return this.received === this.expectedLength;
+  }
+
+  get receivedLength(): number {
+    return this.received;
+  }
+
+  get packetCount(): number {
+    return this.packetIndex;
+  }
+
+  /** Bytes accepted so far. */
+  partial(): Uint8Array {
+    return this.buffer.slice(0, this.received);
+  }
+
+  /**
+   * Accept one packet. Returns true once the payload is complete.
+   * Throws a FragmentError on malformed, out-of-sequence or overrunning packets.
+   */
+  push(packet: Uint8Array): boolean {
+    const header = headerSize(this.options);
+    const index = this.packetIndex;
+
+    if (packet.length < header) {
+      throw this.error(`Packet ${index} is too short for its header (${packet.length} bytes)`, 'malformed');
+    }
+
+    const length = packet[0];
+    if (length === 0 || header + length > packet.length) {
+      throw this.error(`Packet ${index} declares ${length} data bytes but carries at most ${packet.length - header}`, 'malformed');
+    }
+
+    if (this.options.sequence) {
+      const expectedSeq = index & 0xff;
+      const seq = packet[1];
+      if (seq !== expectedSeq) {
+        const what = seq === ((index - 1) & 0xff) ? 'duplicate' : 'out-of-order';
+        throw this.error(`Packet ${index}: ${what} sequence byte ${seq} (expected ${expectedSeq})`, 'sequence');
+      }
+    }
+
+    if (this.received + length > this.expectedLength) {
+      throw this.error(
+        `Overrun: packet ${index} brings total to ${this.received + length} bytes (expected ${this.expectedLength})`,
+        'overrun'
+      );
+    }
+
+    this.buffer.set(packet.subarray(header, header + length), this.received);
+    this.received += length;
+    this.packetIndex++;
+
+    return this.isComplete;
+  }
+
+  /** The full payload. Throws an underrun FragmentError if it is not complete yet. */
+  result(): Uint8Array {
+    if (!this.isComplete) {
+      throw this.underrun();
+    }
+    return this.buffer.slice();
+  }
+
+  underrun(reason = 'transfer ended'): FragmentError {
+    return this.error(
+      `Underrun: ${reason} after ${this.received}/${this.expectedLength} bytes in ${this.packetIndex} packets`,
+      'underrun'
+    );
+  }
+
+  private error(message: string, kind: FragmentErrorKind): FragmentError {
+    return new FragmentError(message, kind, this.partial(), this.expectedLength, this.packetIndex);
+  }
+}
+
+/** Reassemble a captured packet sequence in one go. */
+export function reassemble(packets: Uint8Array[], expectedLength: number, options: FragmentOptions = {}): Uint8Array {
+  const reassembler = new Reassembler(expectedLength, options);
+  for (const packet of packets) {
+    reassembler.push(packet);
+  }
+  return reassembler.result();
+}
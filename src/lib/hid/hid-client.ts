@@ -1,116 +1,339 @@
-import { HID_CONSTANTS } from './constants';
-import { LogEntry, LogType } from './types';
+import { HIDTransport } from './transport';
+import { crc32 } from './checksum';
+import {
+  NotConnectedError,
+  TimeoutError,
+  ShortResponseError,
+  InvalidPayloadError,
+  LicenseVerificationError,
+  UserCancelledPickerError,
+  DeviceInUseError,
+  DeviceNotFoundError,
+  OperationCancelledError,
+} from './errors';
+import { Mutex } from './mutex';
+import { fragment, FragmentError, FragmentOptions, Reassembler } from './fragmentation';
+import { LogEntry, LogPacket, LogType, LicenseVerifyMode } from './types';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE, dongleFilters, fragmentOptionsFor, targetFilters } from './profiles';
+
+/** Report ID as written in log messages, e.g. 0x82. */
+function reportLabel(reportId: number): string {
+  return `0x${reportId.toString(16).padStart(2, '0')}`;
+}
+
+/** Input reports kept for a later `receivePacket`; the oldest is dropped beyond this. */
+const UNSOLICITED_LIMIT = 32;
+
+interface ResponseWaiter {
+  reportId: number;
+  resolve: (data: Uint8Array) => void;
+  reject: (error: Error) => void;
+}
 
 // ============================================================================
 // Abstract Base Client
 // ============================================================================
 
 export abstract class AbstractHIDClient {
-  protected device: HIDDevice | null = null;
+  protected transport: HIDTransport;
   protected onLog: (entry: LogEntry) => void;
+  /** IDs and sizes of the product variant this client talks to. */
+  readonly profile: DeviceProfile;
   protected abstract readonly deviceName: string;
+  /** USB filter used by the picker and when re-attaching permitted devices. */
+  protected abstract readonly filters: HIDDeviceFilter[];
+
+  // Commands run one at a time; each registers for its response before transmitting
+  private commandQueue = new Mutex();
+  private queueDepth = 0;
+  private queueListeners = new Set<(depth: number) => void>();
 
-  constructor(onLog: (entry: LogEntry) => void) {
+  // Every input report goes through one listener: to the oldest waiter for
+  // its ID, or into the unsolicited buffer when nobody is waiting yet.
+  // Unplugging rejects the waiters at once instead of letting them time out.
+  private stopListening: (() => void) | null = null;
+  private waiters: ResponseWaiter[] = [];
+  private unsolicited: { reportId: number; data: Uint8Array }[] = [];
+
+  constructor(
+    onLog: (entry: LogEntry) => void,
+    transport: HIDTransport,
+    profile: DeviceProfile = DEFAULT_DEVICE_PROFILE
+  ) {
     this.onLog = onLog;
+    this.transport = transport;
+    this.profile = profile;
   }
 
-  protected log(type: LogType, message: string, data?: Uint8Array) {
+  protected log(type: LogType, message: string, data?: Uint8Array, packet?: LogPacket) {
     this.onLog({
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       type,
-      message: `[${this.deviceName}] ${message}`,
-      data: data ? Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' ') : undefined
+      message,
+      data: data ? Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(' ') : undefined,
+      device: this.deviceName,
+      packet,
     });
   }
 
   protected logPacket(type: 'tx' | 'rx', reportId: number, data: Uint8Array) {
-    const totalLen = data.byteLength; 
     const idHex = reportId.toString(16).padStart(2, '0').toUpperCase();
-    const dataHex = Array.from(data).map(b => b.toString(16).padStart(2, '0').toUpperCase()).join(' ');
+    // Bytes travel in `packet`; the console renders them as a hex dump
+    this.log(type, `Report [${idHex}] (${data.byteLength} bytes)`, undefined, { direction: type, reportId, payload: data.slice() });
+  }
+
+  async connect(filters: HIDDeviceFilter[] = this.filters): Promise<HIDTransport> {
+    try {
+      await this.transport.open(filters);
+    } catch (e) {
+      // Transports don't know which role they serve; attach it here
+      if (e instanceof UserCancelledPickerError && e.device === null) {
+        throw new UserCancelledPickerError(this.deviceName);
+      }
+      if (e instanceof DeviceInUseError && e.device === null) {
+        throw new DeviceInUseError(this.deviceName);
+      }
+      if (e instanceof DeviceNotFoundError && e.device === null) {
+        throw new DeviceNotFoundError(this.deviceName);
+      }
+      throw e;
+    }
     
-    const message = `(${totalLen} bytes) [${idHex}] [${dataHex}]`;
-    this.log(type, message, undefined);
+    this.listen();
+    this.log('success', `Connected: ${this.transport.productName}`);
+    return this.transport;
   }
 
-  async connect(filters: HIDDeviceRequestOptions['filters'] = []): Promise<HIDDevice> {
-    if (!navigator.hid) {
-      throw new Error("WebHID is not supported in this browser.");
+  /**
+   * Re-attach a device the user already granted, without the picker.
+   * Resolves null when none is plugged in.
+   */
+  async reconnect(): Promise<HIDTransport | null> {
+    if (!await this.transport.reconnect(this.filters)) {
+      return null;
     }
 
-    const devices = await navigator.hid.requestDevice({ filters });
+    this.listen();
+    this.log('success', `Reconnected: ${this.transport.productName}`);
+    return this.transport;
+  }
 
-    if (devices.length === 0) {
-      throw new Error("No device selected.");
-    }
+  /** Subscribe to the connected device being unplugged. */
+  onDisconnect(listener: () => void): () => void {
+    return this.transport.addDisconnectListener(listener);
+  }
 
-    this.device = devices[0];
-    
-    if (!this.device.opened) {
-      await this.device.open();
-    }
-    
-    this.log('success', `Connected: ${this.device.productName}`);
-    return this.device;
+  /** Subscribe to a permitted device of this kind being plugged in. */
+  onDeviceAvailable(listener: () => void): () => void {
+    return this.transport.addConnectListener(this.filters, listener);
   }
 
   async disconnect() {
-    if (this.device) {
-      await this.device.close();
+    this.detach();
+    if (this.transport.isOpen) {
+      await this.transport.close();
       this.log('info', 'Disconnected');
-      this.device = null;
     }
   }
   
   isConnected(): boolean {
-    return this.device !== null && this.device.opened;
+    return this.transport.isOpen;
+  }
+
+  get productName(): string | null {
+    return this.transport.productName;
+  }
+
+  get serialNumber(): string | null {
+    return this.transport.serialNumber;
+  }
+
+  /** Commands queued or running on this device, the running one included. */
+  get pendingCommands(): number {
+    return this.queueDepth;
+  }
+
+  /** Subscribe to the command queue growing or shrinking. */
+  addQueueListener(listener: (depth: number) => void): () => void {
+    this.queueListeners.add(listener);
+    return () => this.queueListeners.delete(listener);
   }
 
-  async sendReport(reportId: number, data: Uint8Array) {
-    if (!this.device || !this.device.opened) {
-      throw new Error("Device not connected");
+  /**
+   * Run `task` once every earlier command on this device has finished, so
+   * two callers (say, a counter poll during a license transfer) never have
+   * requests in flight at the same time.
+   */
+  protected async command<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    this.setQueueDepth(this.queueDepth + 1);
+    try {
+      return await this.commandQueue.runExclusive(task, signal).catch(e => {
+        throw e instanceof OperationCancelledError ? new OperationCancelledError(this.deviceName) : e;
+      });
+    } finally {
+      this.setQueueDepth(this.queueDepth - 1);
+    }
+  }
+
+  private setQueueDepth(depth: number) {
+    this.queueDepth = depth;
+    this.queueListeners.forEach(listener => listener(depth));
+  }
+
+  /** Send a raw output report, queued behind running commands. */
+  sendReport(reportId: number, data: Uint8Array, signal?: AbortSignal): Promise<void> {
+    return this.command(() => this.transmit(reportId, data, signal), signal);
+  }
+
+  /** Send a raw feature report, queued behind running commands. */
+  sendFeatureReport(reportId: number, data: Uint8Array, signal?: AbortSignal): Promise<void> {
+    return this.command(async () => {
+      this.throwIfCancelled(signal);
+      if (!this.transport.isOpen) {
+        throw new NotConnectedError(this.deviceName, reportId);
+      }
+      this.log('info', `Sending Feature Report [${reportId.toString(16).padStart(2, '0').toUpperCase()}]`, data);
+      await this.transport.sendFeatureReport(reportId, data);
+    }, signal);
+  }
+
+  protected throwIfCancelled(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new OperationCancelledError(this.deviceName);
+    }
+  }
+
+  /** Write an output report. Only call from inside a `command`. */
+  protected async transmit(reportId: number, data: Uint8Array, signal?: AbortSignal) {
+    this.throwIfCancelled(signal);
+    if (!this.transport.isOpen) {
+      throw new NotConnectedError(this.deviceName, reportId);
     }
     this.logPacket('tx', reportId, data);
-    await this.device.sendReport(reportId, data as unknown as BufferSource);
+    await this.transport.sendReport(reportId, data);
   }
 
-  async sendFeatureReport(reportId: number, data: Uint8Array) {
-    if (!this.device || !this.device.opened) {
-      throw new Error("Device not connected");
+  /**
+   * One send-and-await-response transaction. Replies left over from an
+   * earlier, timed-out request are discarded first, and the waiter is in
+   * place before the request goes out. Only call from inside a `command`.
+   */
+  protected async request(
+    reportId: number,
+    data: Uint8Array,
+    responseId: number,
+    timeoutMs = 2000,
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    this.discardUnsolicited(responseId);
+    const abandon = new AbortController();
+    const response = this.receivePacket(responseId, timeoutMs, signal ? AbortSignal.any([signal, abandon.signal]) : abandon.signal);
+    try {
+      await this.transmit(reportId, data, signal);
+    } catch (e) {
+      response.catch(() => {});
+      abandon.abort();
+      throw e;
     }
-    this.log('info', `Sending Feature Report [${reportId.toString(16).padStart(2, '0').toUpperCase()}]`, data);
-    await this.device.sendFeatureReport(reportId, data as unknown as BufferSource);
+    return response;
   }
 
-  async receivePacket(expectedReportId: number, timeoutMs = 2000): Promise<Uint8Array> {
+  /**
+   * The next input report with `expectedReportId`: the oldest buffered one,
+   * else the next to arrive. Rejects at once when `signal` aborts or the
+   * device goes away. Only call from inside a `command`.
+   */
+  protected receivePacket(expectedReportId: number, timeoutMs = 2000, signal?: AbortSignal): Promise<Uint8Array> {
     return new Promise((resolve, reject) => {
-      if (!this.device || !this.device.opened) {
-        return reject(new Error("Device disconnected"));
+      if (signal?.aborted) {
+        return reject(new OperationCancelledError(this.deviceName));
+      }
+      if (!this.transport.isOpen) {
+        return reject(new NotConnectedError(this.deviceName, expectedReportId));
       }
 
+      const buffered = this.unsolicited.findIndex(report => report.reportId === expectedReportId);
+      if (buffered !== -1) {
+        return resolve(this.unsolicited.splice(buffered, 1)[0].data);
+      }
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiters = this.waiters.filter(w => w !== waiter);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new OperationCancelledError(this.deviceName));
+      };
       const timer = setTimeout(() => {
         cleanup();
-        reject(new Error(`Timeout waiting for packet [${expectedReportId.toString(16)}]`));
+        reject(new TimeoutError(this.deviceName, expectedReportId, timeoutMs));
       }, timeoutMs);
 
-      const handler = (event: HIDInputReportEvent) => {
-        if (event.reportId === expectedReportId) {
-          const data = new Uint8Array(event.data.buffer);
-          this.logPacket('rx', event.reportId, data);
+      const waiter: ResponseWaiter = {
+        reportId: expectedReportId,
+        resolve: data => {
           cleanup();
           resolve(data);
-        }
+        },
+        reject: error => {
+          cleanup();
+          reject(error);
+        },
       };
+      this.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 
-      const cleanup = () => {
-        clearTimeout(timer);
-        if (this.device) {
-           this.device.removeEventListener('inputreport', handler);
-        }
-      };
+  /** Drop buffered reports with `reportId`, e.g. stale replies before a new request. */
+  protected discardUnsolicited(reportId: number) {
+    const stale = this.unsolicited.filter(report => report.reportId === reportId);
+    if (stale.length === 0) return;
 
-      this.device.addEventListener('inputreport', handler);
+    this.unsolicited = this.unsolicited.filter(report => report.reportId !== reportId);
+    this.log('info', `Discarded ${stale.length} stale ${reportLabel(reportId)} report(s)`);
+  }
+
+  private listen() {
+    this.detach();
+    const stopInput = this.transport.addInputReportListener((reportId, data) => this.handleInputReport(reportId, data));
+    const stopDisconnect = this.transport.addDisconnectListener(() => {
+      this.log('error', 'Device removed');
+      this.detach();
     });
+    this.stopListening = () => {
+      stopInput();
+      stopDisconnect();
+    };
+  }
+
+  /** Stop listening and fail every pending wait: nothing more can arrive. */
+  private detach() {
+    this.stopListening?.();
+    this.stopListening = null;
+    this.unsolicited = [];
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(w => w.reject(new NotConnectedError(this.deviceName, w.reportId)));
+  }
+
+  private handleInputReport(reportId: number, data: Uint8Array) {
+    this.logPacket('rx', reportId, data);
+
+    const waiter = this.waiters.find(w => w.reportId === reportId);
+    if (waiter) {
+      waiter.resolve(data);
+      return;
+    }
+
+    if (this.unsolicited.length >= UNSOLICITED_LIMIT) {
+      const dropped = this.unsolicited.shift()!;
+      this.log('error', `Unsolicited report buffer full, dropped a ${reportLabel(dropped.reportId)} report`);
+    }
+    this.unsolicited.push({ reportId, data: data.slice() });
   }
 }
 
@@ -120,68 +343,91 @@ export abstract class AbstractHIDClient {
 
 export class DongleClient extends AbstractHIDClient {
   protected readonly deviceName = 'Dongle';
-    
-  async connect(): Promise<HIDDevice> {
-    return super.connect([{ 
-      vendorId: HID_CONSTANTS.VENDOR_ID, 
-      productId: HID_CONSTANTS.PRODUCT_ID 
-    }]);
+  protected get filters() {
+    return dongleFilters(this.profile);
   }
 
-  async sendFragmentedData(payload: Uint8Array) {
-    if (payload.length !== 128) {
-      throw new Error("UUID must be 128 bytes.");
-    }
-    
-    // Chunk 1: 0-61 (62 bytes)
-    // Chunk 2: 62-123 (62 bytes)
-    // Chunk 3: 124-127 (4 bytes)
-    const chunks = [
-      payload.slice(0, 62),
-      payload.slice(62, 124),
-      payload.slice(124, 128)
-    ];
-    
-    for (const chunk of chunks) {
-      const reportData = new Uint8Array(63);
-      reportData[0] = chunk.length; // Length byte
-      reportData.set(chunk, 1);     // Data
-      
-      await this.sendReport(HID_CONSTANTS.REPORT_ID.GET_LICENSE_OUT, reportData);
-    }
+  /**
+   * Held by a licensing pipeline from its counter check until the license is
+   * received: fragmented 0x02/0x01 transfers must not interleave.
+   */
+  readonly lock = new Mutex();
+
+  /** Framing for the license transfers; taken from the profile, overridable for testing. */
+  fragmentOptions: FragmentOptions = fragmentOptionsFor(this.profile);
+
+  private counterListeners = new Set<(counter: number) => void>();
+
+  /** Subscribe to every counter value read from this dongle. */
+  addCounterListener(listener: (counter: number) => void): () => void {
+    this.counterListeners.add(listener);
+    return () => this.counterListeners.delete(listener);
   }
 
-  async receiveFragmentedData(): Promise<Uint8Array> {
-    // Expect 5 packets -> 256 bytes
-    const fullBuffer = new Uint8Array(256);
-    let offset = 0;
-    
-    for (let i = 0; i < 5; i++) {
-      const packet = await this.receivePacket(HID_CONSTANTS.REPORT_ID.GET_LICENSE_IN, 3000);
-      
-      // Packet structure: [Length (1B)] [Data (N)] [Padding]
-      const length = packet[0];
-      const data = packet.slice(1, 1 + length);
-      
-      fullBuffer.set(data, offset);
-      offset += length;
+  async sendFragmentedData(payload: Uint8Array, signal?: AbortSignal) {
+    const { uuidLength, dongle } = this.profile;
+    if (payload.length !== uuidLength) {
+      throw new InvalidPayloadError(`UUID must be ${uuidLength} bytes.`, this.deviceName, dongle.reportIds.licenseOut);
     }
     
-    return fullBuffer;
+    // Default framing splits 128 bytes into 62 + 62 + 4
+    await this.command(async () => {
+      // License packets still buffered belong to an earlier, abandoned transfer
+      this.discardUnsolicited(dongle.reportIds.licenseIn);
+      for (const packet of fragment(payload, this.fragmentOptions)) {
+        await this.transmit(dongle.reportIds.licenseOut, packet, signal);
+      }
+    }, signal);
   }
 
-  async getCounter(): Promise<number | null> {
-    const payload = new Uint8Array(63); // Zeros
-    await this.sendReport(HID_CONSTANTS.REPORT_ID.GET_COUNTER_OUT, payload);
+  /** Packets that arrived before this is called were buffered and are picked up first. */
+  receiveFragmentedData(expectedLength = this.profile.licenseLength, signal?: AbortSignal): Promise<Uint8Array> {
+    return this.command(async () => {
+      const reassembler = new Reassembler(expectedLength, this.fragmentOptions);
+
+      while (!reassembler.isComplete) {
+        let packet: Uint8Array;
+        try {
+          packet = await this.receivePacket(this.profile.dongle.reportIds.licenseIn, 3000, signal);
+        } catch (e) {
+          // Nothing at all is a silent dongle (often: no credits), not a broken transfer;
+          // cancelling or unplugging is not a broken transfer either
+          if (reassembler.packetCount === 0 || !(e instanceof TimeoutError)) throw e;
+          const error = reassembler.underrun(`timed out waiting for packet ${reassembler.packetCount}`);
+          this.log('error', error.message, error.partial);
+          throw error;
+        }
+
+        try {
+          reassembler.push(packet);
+        } catch (e) {
+          if (e instanceof FragmentError) {
+            this.log('error', e.message, e.partial);
+          }
+          throw e;
+        }
+      }
+
+      return reassembler.result();
+    }, signal);
+  }
+
+  async getCounter(signal?: AbortSignal): Promise<number | null> {
+    const { reportSize, dongle } = this.profile;
+    const payload = new Uint8Array(reportSize - 1); // Zeros
     
     try {
-      const response = await this.receivePacket(HID_CONSTANTS.REPORT_ID.GET_COUNTER_IN, 2000);
+      const response = await this.command(
+        () => this.request(dongle.reportIds.counterOut, payload, dongle.reportIds.counterIn, 2000, signal),
+        signal
+      );
       
       const cLow = response[0];
       const cHigh = response[1];
       const counterValue = cLow | (cHigh << 8);
       
       this.log('success', `Counter: ${counterValue}`);
+      this.counterListeners.forEach(listener => listener(counterValue));
       return counterValue;
     } catch (e) {
       this.log('error', 'Counter check failed: ' + e);
@@ -196,45 +442,109 @@ export class DongleClient extends AbstractHIDClient {
 
 export class TargetDeviceClient extends AbstractHIDClient {
   protected readonly deviceName = 'Target';
-    
-  // Connect to Target Device with specific USB filter
-  async connect(): Promise<HIDDevice> {
-    return super.connect([{ 
-      vendorId: HID_CONSTANTS.TARGET_VENDOR_ID, 
-      productId: HID_CONSTANTS.TARGET_PRODUCT_ID 
-    }]);
+  protected get filters() {
+    return targetFilters(this.profile);
   }
 
-  async readUUID(): Promise<Uint8Array> {
-    this.log('info', 'Sending UUID Request (0x80)...');
-    
-    // Send request with empty data
-    const reportOut = new Uint8Array(0);
-    await this.sendReport(HID_CONSTANTS.TARGET_REPORT_ID.GET_UUID_REQUEST, reportOut);
-    
-    this.log('info', 'Waiting for UUID Response (0x81)...');
+  private get reportIds() {
+    return this.profile.target.reportIds;
+  }
+
+  async readUUID(signal?: AbortSignal): Promise<Uint8Array> {
+    this.log('info', `Sending UUID Request (${reportLabel(this.reportIds.uuidRequest)})...`);
     
-    // Expect 128 bytes UUID in response
-    const response = await this.receivePacket(HID_CONSTANTS.TARGET_REPORT_ID.GET_UUID_RESPONSE, 2000);
+    // Send request with empty data; expect the whole UUID in one response
+    const { uuidLength } = this.profile;
+    const response = await this.command(
+      () => this.request(this.reportIds.uuidRequest, new Uint8Array(0), this.reportIds.uuidResponse, 2000, signal),
+      signal
+    );
     
-    if (response.byteLength < 128) {
-      this.log('error', `UUID read incomplete: got ${response.byteLength}/128 bytes`);
-      throw new Error(`UUID must be 128 bytes (got ${response.byteLength})`);
+    if (response.byteLength < uuidLength) {
+      this.log('error', `UUID read incomplete: got ${response.byteLength}/${uuidLength} bytes`);
+      throw new ShortResponseError(this.deviceName, this.reportIds.uuidResponse, uuidLength, response.byteLength);
     }
     
     this.log('success', 'UUID Read Complete');
-    return response.slice(0, 128);
+    return response.slice(0, uuidLength);
   }
 
-  async writeLicense(license: Uint8Array): Promise<void> {
-    if (license.length !== 256) {
-      throw new Error(`License must be 256 bytes (got ${license.length})`);
+  async writeLicense(license: Uint8Array, verifyMode: LicenseVerifyMode = 'off', signal?: AbortSignal): Promise<void> {
+    const { licenseLength } = this.profile;
+    if (license.length !== licenseLength) {
+      throw new InvalidPayloadError(`License must be ${licenseLength} bytes (got ${license.length})`, this.deviceName, this.reportIds.storeLicense);
     }
 
-    this.log('info', 'Writing License (0x82) - 256 bytes in one send...');
+    this.log('info', `Writing License (${reportLabel(this.reportIds.storeLicense)}) - ${licenseLength} bytes in one send...`);
     
-    await this.sendReport(HID_CONSTANTS.TARGET_REPORT_ID.STORE_LICENSE, license);
+    await this.command(async () => {
+      // An ACK still buffered answers an earlier write, not this one
+      this.discardUnsolicited(this.reportIds.storeLicenseAck);
+      await this.transmit(this.reportIds.storeLicense, license, signal);
+    }, signal);
     
     this.log('success', 'License Write Complete');
+
+    await this.verifyLicense(license, verifyMode, signal);
+  }
+
+  async verifyLicense(license: Uint8Array, mode: LicenseVerifyMode, signal?: AbortSignal): Promise<void> {
+    if (mode === 'off') return;
+
+    if (mode === 'ack') {
+      this.log('info', `Waiting for License Acknowledgement (${reportLabel(this.reportIds.storeLicenseAck)})...`);
+
+      let ack: Uint8Array;
+      try {
+        // Buffered if it arrived before this call
+        ack = await this.command(() => this.receivePacket(this.reportIds.storeLicenseAck, 2000, signal), signal);
+      } catch (e) {
+        if (e instanceof NotConnectedError || e instanceof OperationCancelledError) throw e;
+        this.log('error', 'No license acknowledgement from target');
+        throw new LicenseVerificationError('Target did not acknowledge the license write', mode, this.reportIds.storeLicenseAck);
+      }
+
+      const status = ack[0];
+      const length = ack[1] | (ack[2] << 8);
+      const checksum = (ack[3] | (ack[4] << 8) | (ack[5] << 16) | (ack[6] << 24)) >>> 0;
+      const expected = crc32(license);
+
+      if (status !== 0) {
+        this.log('error', `Target rejected license (status 0x${status.toString(16).padStart(2, '0')})`);
+        throw new LicenseVerificationError(`Target rejected the license (status 0x${status.toString(16).padStart(2, '0')})`, mode, this.reportIds.storeLicenseAck);
+      }
+      if (length !== license.length || checksum !== expected) {
+        this.log('error', `License ACK mismatch: ${length} bytes / CRC ${checksum.toString(16)} (expected ${license.length} / ${expected.toString(16)})`);
+        throw new LicenseVerificationError('Stored license does not match what was written (length/CRC mismatch)', mode, this.reportIds.storeLicenseAck);
+      }
+
+      this.log('success', 'License Acknowledged');
+      return;
+    }
+
+    this.log('info', `Reading License Back (${reportLabel(this.reportIds.readLicenseRequest)} -> ${reportLabel(this.reportIds.readLicenseResponse)})...`);
+    let stored: Uint8Array;
+    try {
+      stored = await this.command(
+        () => this.request(this.reportIds.readLicenseRequest, new Uint8Array(0), this.reportIds.readLicenseResponse, 2000, signal),
+        signal
+      );
+    } catch (e) {
+      if (e instanceof NotConnectedError || e instanceof OperationCancelledError) throw e;
+      this.log('error', 'No license readback from target');
+      throw new LicenseVerificationError('Target did not return the stored license', mode, this.reportIds.readLicenseResponse);
+    }
+
+    const mismatchAt = license.findIndex((b, i) => stored[i] !== b);
+    if (stored.byteLength < license.length || mismatchAt !== -1) {
+      this.log('error', `License readback mismatch at byte ${mismatchAt === -1 ? stored.byteLength : mismatchAt}`);
+      throw new LicenseVerificationError(
+        `Stored license differs from what was written (first mismatch at byte ${mismatchAt === -1 ? stored.byteLength : mismatchAt})`,
+        mode,
+        this.reportIds.readLicenseResponse
+      );
+    }
+
+    this.log('success', 'License Readback Verified');
   }
 }
@@ -1,13 +1,56 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import { DongleClient, TargetDeviceClient, AbstractHIDClient } from './hid-client';
+import { DevicePool, PooledDevice } from './device-pool';
+import { DonglePool, PooledDongle } from './dongle-pool';
+import { SimulatedDongle, SimulatedRack, SimulatedTarget } from './simulator';
+import { HIDTransportFactory } from './transport';
+import { WebHIDTransportFactory } from './webhid-transport';
 import { LogEntry, DeviceConnectionState } from './types';
+import { DeviceProfile, targetFilters } from './profiles';
+import { appendLog } from '@/lib/logs/filter';
+import { useDeviceProfile } from '@/lib/settings';
+import { toastError } from '@/lib/notify';
+import { describeError } from './errors';
 
 // ============================================================================
-// Device Handle - Unified interface for managing a device
+// Transport Selection
 // ============================================================================
 
+export type TransportKind = 'webhid' | 'simulator';
+
+export const DEFAULT_TRANSPORT: TransportKind =
+  process.env.NEXT_PUBLIC_HID_TRANSPORT === 'simulator' ? 'simulator' : 'webhid';
+
+/** Simulated targets on the bench; only the first starts plugged in. */
+const SIMULATED_TARGET_SLOTS = 8;
+
+function createDongleTransports(kind: TransportKind, profile: DeviceProfile): HIDTransportFactory {
+  if (kind === 'simulator') {
+    // The first dongle runs dry quickly so failover can be exercised
+    return new SimulatedRack([
+      new SimulatedDongle({ serialNumber: 'SIM-DONGLE-A', counter: 5, profile }),
+      new SimulatedDongle({ serialNumber: 'SIM-DONGLE-B', counter: 100, profile }),
+    ]);
+  }
+  return new WebHIDTransportFactory();
+}
+
+function createTargetTransports(kind: TransportKind, profile: DeviceProfile): HIDTransportFactory {
+  if (kind === 'simulator') {
+    const targets = Array.from({ length: SIMULATED_TARGET_SLOTS }, () => new SimulatedTarget({ profile }));
+    targets.slice(1).forEach(target => target.unplug());
+    return new SimulatedRack(targets);
+  }
+  return new WebHIDTransportFactory();
+}
+
+// ============================================================================
+// Device Handles
+// ============================================================================
+
+/** A single device, as used by the single-unit screens. */
 interface DeviceHandle<T extends AbstractHIDClient> {
   client: T | null;
   connectionState: DeviceConnectionState;
@@ -15,13 +58,178 @@ interface DeviceHandle<T extends AbstractHIDClient> {
   disconnect: () => Promise<void>;
 }
 
+/** Every attached device of one kind. */
+export interface PoolHandle<C extends AbstractHIDClient, E extends PooledDevice<C> = PooledDevice<C>> {
+  entries: E[];
+  /** No device attached yet, but one will be picked up as soon as it is plugged in. */
+  isWaiting: boolean;
+  /** Message of the last failed `add`, cleared by the next success. */
+  error: string | null;
+  /** Add a device through the browser picker. */
+  add: () => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface DonglePoolHandle extends PoolHandle<DongleClient, PooledDongle> {
+  pool: DonglePool;
+  /** Sum of the last-read counters across the pool. */
+  totalCredits: number;
+  /** The dongle licenses are currently drawn from. */
+  active: PooledDongle | null;
+  refreshCounters: () => Promise<void>;
+}
+
+export interface SimulatorBench {
+  dongles: SimulatedDongle[];
+  targets: SimulatedTarget[];
+}
+
+// ============================================================================
+// Pool State
+// ============================================================================
+
+/** HID log entry for a failure outside any client's own exchange. */
+function errorLogEntry(message: string, err: unknown, device?: string): LogEntry {
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    type: 'error',
+    message: `${message}: ${describeError(err).title}`,
+    device,
+  };
+}
+
+/**
+ * Exposes a device pool to React. Devices the user granted earlier are
+ * attached on mount and whenever one is plugged in, so the picker is only
+ * needed the first time.
+ */
+function usePool<C extends AbstractHIDClient, E extends PooledDevice<C>>(
+  pool: DevicePool<C, E>,
+  onLog: (entry: LogEntry) => void
+): PoolHandle<C, E> {
+  const entries = useSyncExternalStore(pool.subscribe, pool.getSnapshot, pool.getSnapshot);
+  // Becomes true once the first lookup of permitted devices has finished
+  const [watching, setWatching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const attachAll = async () => {
+      try {
+        await pool.reconnectAll();
+      } catch (err: unknown) {
+        // Typically held by another tab; stay waiting for the next connect event
+        onLog(errorLogEntry('Auto-reconnect failed', err, pool.deviceName));
+      } finally {
+        if (!cancelled) setWatching(true);
+      }
+    };
+
+    attachAll();
+    const removeListener = pool.onDeviceAvailable(attachAll);
+    return () => {
+      cancelled = true;
+      removeListener();
+    };
+  }, [pool, onLog]);
+
+  const add = useCallback(async () => {
+    try {
+      await pool.add();
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }, [pool]);
+
+  const remove = useCallback((id: string) => pool.remove(id), [pool]);
+
+  return { entries, isWaiting: watching && entries.length === 0, error, add, remove };
+}
+
+function useDonglePool(pool: DonglePool, onLog: (entry: LogEntry) => void): DonglePoolHandle {
+  const handle = usePool(pool, onLog);
+  const refreshCounters = useCallback(() => pool.refreshCounters(), [pool]);
+
+  return {
+    ...handle,
+    pool,
+    totalCredits: pool.totalCredits,
+    active: handle.entries.length > 0 ? pool.select() ?? handle.entries[0] : null,
+    refreshCounters,
+  };
+}
+
+/** Single-device view of a pool: the given entry, else nothing connected. */
+function singleDeviceHandle<C extends AbstractHIDClient>(
+  pool: PoolHandle<C, PooledDevice<C>>,
+  entry: PooledDevice<C> | null
+): DeviceHandle<C> {
+  return {
+    client: entry?.client ?? null,
+    connectionState: {
+      isConnected: entry !== null,
+      isWaiting: pool.isWaiting,
+      device: entry?.transport ?? null,
+      error: pool.error,
+    },
+    connect: pool.add,
+    disconnect: async () => {
+      if (entry) await pool.remove(entry.id);
+    },
+  };
+}
+
+// ============================================================================
+// Device Session
+// ============================================================================
+
+/** Transports and pools built for one device profile. */
+interface DeviceSession {
+  profile: DeviceProfile;
+  donglePool: DonglePool;
+  targetPool: DevicePool<TargetDeviceClient>;
+  simulator: SimulatorBench | null;
+}
+
+function createDeviceSession(kind: TransportKind, profile: DeviceProfile, addLog: (entry: LogEntry) => void): DeviceSession {
+  const dongles = createDongleTransports(kind, profile);
+  const targets = createTargetTransports(kind, profile);
+
+  return {
+    profile,
+    donglePool: new DonglePool(dongles, addLog, profile),
+    targetPool: new DevicePool<TargetDeviceClient>(
+      targets,
+      transport => new TargetDeviceClient(addLog, transport, profile),
+      targetFilters(profile),
+      'Target'
+    ),
+    simulator: dongles instanceof SimulatedRack && targets instanceof SimulatedRack
+      ? { dongles: dongles.devices, targets: targets.devices }
+      : null,
+  };
+}
+
 // ============================================================================
 // HID Context Type
 // ============================================================================
 
 interface HIDContextType {
+  /** The dongle currently drawn from; see `dongles` for the whole pool. */
   dongle: DeviceHandle<DongleClient>;
+  dongles: DonglePoolHandle;
+  /** The first attached target; see `targets` for every unit on the station. */
   target: DeviceHandle<TargetDeviceClient>;
+  targets: PoolHandle<TargetDeviceClient>;
+  transportKind: TransportKind;
+  /** Profile the clients were built for. */
+  profile: DeviceProfile;
+  /** Handles to the in-memory devices when running on the simulator. */
+  simulator: SimulatorBench | null;
   logs: LogEntry[];
   clearLogs: () => void;
 }
@@ -34,107 +242,55 @@ export const useHID = () => useContext(HIDContext);
 // HID Provider
 // ============================================================================
 
-export const HIDProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+interface HIDProviderProps {
+  children: React.ReactNode;
+  /** Defaults to NEXT_PUBLIC_HID_TRANSPORT, falling back to WebHID. */
+  transport?: TransportKind;
+}
+
+export const HIDProvider: React.FC<HIDProviderProps> = ({ children, transport: transportKind = DEFAULT_TRANSPORT }) => {
   // Shared logs
   const [logs, setLogs] = useState<LogEntry[]>([]);
   
   const addLog = useCallback((entry: LogEntry) => {
-    setLogs(prev => [...prev, entry]);
+    setLogs(prev => appendLog(prev, entry));
   }, []);
 
   const clearLogs = useCallback(() => setLogs([]), []);
 
-  // ---- Dongle State ----
+  const profile = useDeviceProfile();
   // Use lazy initialization to avoid calling setState in useEffect
-  const [dongleClient] = useState<DongleClient>(() => new DongleClient(addLog));
-  const [dongleState, setDongleState] = useState<DeviceConnectionState>({
-    isConnected: false,
-    device: null,
-    error: null,
-  });
-
-  const connectDongle = useCallback(async () => {
-    try {
-      const device = await dongleClient.connect();
-      setDongleState({
-        isConnected: true,
-        device: device,
-        error: null,
-      });
-      
-      device.addEventListener('disconnect', () => {
-        setDongleState(prev => ({ ...prev, isConnected: false, device: null, error: 'Device disconnected' }));
-      });
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setDongleState(prev => ({ ...prev, error: message }));
-      throw err;
-    }
-  }, [dongleClient]);
-
-  const disconnectDongle = useCallback(async () => {
-    await dongleClient.disconnect();
-    setDongleState({
-      isConnected: false,
-      device: null,
-      error: null,
-    });
-  }, [dongleClient]);
-
-  // ---- Target State ----
-  // Use lazy initialization to avoid calling setState in useEffect
-  const [targetClient] = useState<TargetDeviceClient>(() => new TargetDeviceClient(addLog));
-  const [targetState, setTargetState] = useState<DeviceConnectionState>({
-    isConnected: false,
-    device: null,
-    error: null,
-  });
-
-  const connectTarget = useCallback(async () => {
-    try {
-      const device = await targetClient.connect();
-      setTargetState({
-        isConnected: true,
-        device: device,
-        error: null,
-      });
-      
-      device.addEventListener('disconnect', () => {
-        setTargetState(prev => ({ ...prev, isConnected: false, device: null, error: 'Device disconnected' }));
+  const [session, setSession] = useState(() => createDeviceSession(transportKind, profile, addLog));
+  // Another profile means other filters and sizes: start over with fresh clients
+  if (session.profile !== profile) {
+    setSession(createDeviceSession(transportKind, profile, addLog));
+  }
+  const { donglePool, targetPool, simulator } = session;
+
+  const previousSession = useRef(session);
+  useEffect(() => {
+    const previous = previousSession.current;
+    if (previous === session) return;
+    previousSession.current = session;
+
+    // The old clients still hold the devices open; release them before re-attaching
+    Promise.all([previous.donglePool.clear(), previous.targetPool.clear()])
+      .then(() => Promise.all([session.donglePool.reconnectAll(), session.targetPool.reconnectAll()]))
+      .catch((err: unknown) => {
+        addLog(errorLogEntry('Re-attaching devices for the new profile failed', err));
+        toastError('Re-attaching devices failed', err);
       });
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : String(err);
-      setTargetState(prev => ({ ...prev, error: message }));
-      throw err;
-    }
-  }, [targetClient]);
+  }, [session, addLog]);
 
-  const disconnectTarget = useCallback(async () => {
-    await targetClient.disconnect();
-    setTargetState({
-      isConnected: false,
-      device: null,
-      error: null,
-    });
-  }, [targetClient]);
+  const dongles = useDonglePool(donglePool, addLog);
+  const targets = usePool(targetPool, addLog);
 
   // ---- Build Context Value ----
-  const dongle: DeviceHandle<DongleClient> = {
-    client: dongleClient,
-    connectionState: dongleState,
-    connect: connectDongle,
-    disconnect: disconnectDongle,
-  };
-
-  const target: DeviceHandle<TargetDeviceClient> = {
-    client: targetClient,
-    connectionState: targetState,
-    connect: connectTarget,
-    disconnect: disconnectTarget,
-  };
+  const dongle = singleDeviceHandle<DongleClient>(dongles, dongles.active);
+  const target = singleDeviceHandle(targets, targets.entries[0] ?? null);
 
   return (
-    <HIDContext.Provider value={{ dongle, target, logs, clearLogs }}>
+    <HIDContext.Provider value={{ dongle, dongles, target, targets, transportKind, profile: session.profile, simulator, logs, clearLogs }}>
       {children}
     </HIDContext.Provider>
   );
@@ -0,0 +1,59 @@
+import { OperationCancelledError } from './errors';
+
+// ============================================================================
+// Mutex
+// ============================================================================
+
+/** FIFO async lock. Holders are served in the order they called `acquire`. */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Resolves with a release function once every earlier holder has released.
+   * Aborting `signal` while waiting rejects with OperationCancelledError and
+   * gives the turn up as soon as it comes.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+
+    let release!: () => void;
+    const held = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const acquired = this.tail.then(() => {
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        release();
+      };
+    });
+    this.tail = this.tail.then(() => held);
+    if (!signal) return acquired;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        acquired.then(releaseTurn => releaseTurn());
+        reject(new OperationCancelledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      acquired.then(releaseTurn => {
+        signal.removeEventListener('abort', onAbort);
+        if (signal.aborted) releaseTurn();
+        else resolve(releaseTurn);
+      });
+    });
+  }
+
+  async runExclusive<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+}
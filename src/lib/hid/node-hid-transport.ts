@@ -0,0 +1,114 @@
+import { devicesAsync, HIDAsync } from 'node-hid';
+import type { Device } from 'node-hid';
+import { DeviceNotFoundError, NotConnectedError } from './errors';
+import { HIDTransport, HIDTransportFactory, InputReportListener, matchesFilters } from './transport';
+
+// ============================================================================
+// node-hid Transport
+// ============================================================================
+//
+// Used by the CLI; the web app never imports this file (node-hid is a native
+// module). All devices use numbered reports, so the first byte of every
+// report read or written is the report ID.
+
+/** Paths opened by any transport in this process; hidapi has no `opened` flag. */
+const openPaths = new Set<string>();
+
+export class NodeHIDTransport implements HIDTransport {
+  private device: HIDAsync | null = null;
+  private info: Device | null = null;
+  private inputListeners = new Set<InputReportListener>();
+  private disconnectListeners = new Set<() => void>();
+
+  get productName(): string | null {
+    return this.info?.product ?? null;
+  }
+
+  get serialNumber(): string | null {
+    return this.info?.serialNumber || null;
+  }
+
+  get isOpen(): boolean {
+    return this.device !== null;
+  }
+
+  /** There is no picker: opens the first matching device not open yet. */
+  async open(filters: HIDDeviceFilter[]): Promise<void> {
+    if (!await this.reconnect(filters)) {
+      throw new DeviceNotFoundError();
+    }
+  }
+
+  async reconnect(filters: HIDDeviceFilter[]): Promise<boolean> {
+    const devices = await devicesAsync();
+    const info = devices.find(d => d.path && !openPaths.has(d.path) && matchesFilters(d, filters));
+    if (!info?.path) {
+      return false;
+    }
+
+    const device = await HIDAsync.open(info.path);
+    openPaths.add(info.path);
+    this.device = device;
+    this.info = info;
+
+    device.on('data', (data: Buffer) => {
+      const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      this.inputListeners.forEach(listener => listener(bytes[0], bytes.slice(1)));
+    });
+    // hidapi reports an unplugged device as a read error
+    device.on('error', () => {
+      if (this.device !== device) return;
+      this.close().catch(() => {});
+      this.disconnectListeners.forEach(listener => listener());
+    });
+    return true;
+  }
+
+  async close(): Promise<void> {
+    const device = this.device;
+    if (!device) return;
+
+    if (this.info?.path) openPaths.delete(this.info.path);
+    this.device = null;
+    await device.close();
+  }
+
+  async sendReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.device) {
+      throw new NotConnectedError(null, reportId);
+    }
+    await this.device.write(Buffer.from([reportId, ...data]));
+  }
+
+  async sendFeatureReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.device) {
+      throw new NotConnectedError(null, reportId);
+    }
+    await this.device.sendFeatureReport(Buffer.from([reportId, ...data]));
+  }
+
+  addInputReportListener(listener: InputReportListener): () => void {
+    this.inputListeners.add(listener);
+    return () => this.inputListeners.delete(listener);
+  }
+
+  addDisconnectListener(listener: () => void): () => void {
+    this.disconnectListeners.add(listener);
+    return () => this.disconnectListeners.delete(listener);
+  }
+
+  /** hidapi has no hotplug events; the CLI attaches its devices once at start. */
+  addConnectListener(): () => void {
+    return () => {};
+  }
+}
+
+export class NodeHIDTransportFactory implements HIDTransportFactory {
+  create(): HIDTransport {
+    return new NodeHIDTransport();
+  }
+
+  addConnectListener(): () => void {
+    return () => {};
+  }
+}
@@ -0,0 +1,203 @@
+import { FragmentOptions } from './fragmentation';
+
+// ============================================================================
+// Device Profiles
+// ============================================================================
+//
+// Everything that differs between product variants: USB IDs, report IDs and
+// payload sizes. The clients, the simulator and the replay engine all take a
+// profile; `DEFAULT_DEVICE_PROFILE` is the original dongle/target pair.
+
+export interface DongleReportIds {
+  licenseIn: number;
+  licenseOut: number;
+  counterIn: number;
+  counterOut: number;
+}
+
+export interface TargetReportIds {
+  uuidRequest: number;
+  uuidResponse: number;
+  storeLicense: number;
+  // Write verification (firmware with license readback support)
+  // ACK payload: [status (0 = stored)] [length LE (2B)] [CRC-32 LE (4B)]
+  storeLicenseAck: number;
+  readLicenseRequest: number;
+  readLicenseResponse: number;
+}
+
+export interface DeviceIdentity<R> {
+  vendorId: number;
+  productId: number;
+  /** Added to the USB filter when set. */
+  usagePage: number | null;
+  reportIds: R;
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  dongle: DeviceIdentity<DongleReportIds>;
+  target: DeviceIdentity<TargetReportIds>;
+  /** Dongle report size, report ID included. */
+  reportSize: number;
+  uuidLength: number;
+  licenseLength: number;
+  /** Max data bytes per fragmented packet; null fills the packet. */
+  chunkSize: number | null;
+  /** Fragmented packets carry a sequence byte. */
+  sequence: boolean;
+}
+
+export const DEFAULT_DEVICE_PROFILE: DeviceProfile = {
+  id: 'default',
+  name: 'Standard dongle / target',
+  dongle: {
+    vendorId: 0x0483,
+    productId: 0x5732,
+    usagePage: null,
+    reportIds: { licenseIn: 0x01, licenseOut: 0x02, counterIn: 0x03, counterOut: 0x04 },
+  },
+  target: {
+    vendorId: 0x0a12,
+    productId: 0x4007,
+    usagePage: null,
+    reportIds: {
+      uuidRequest: 0x80,
+      uuidResponse: 0x81,
+      storeLicense: 0x82,
+      storeLicenseAck: 0x83,
+      readLicenseRequest: 0x84,
+      readLicenseResponse: 0x85,
+    },
+  },
+  reportSize: 64,
+  uuidLength: 128,
+  licenseLength: 256,
+  chunkSize: null,
+  sequence: false,
+};
+
+/** Profiles shipped with the tool; operators add their own by importing JSON. */
+export const BUILTIN_PROFILES: readonly DeviceProfile[] = [DEFAULT_DEVICE_PROFILE];
+
+/** Built-in profiles first; an imported profile never shadows a built-in ID. */
+export function availableProfiles(custom: DeviceProfile[]): DeviceProfile[] {
+  return [...BUILTIN_PROFILES, ...custom.filter(p => !BUILTIN_PROFILES.some(b => b.id === p.id))];
+}
+
+/** The profile with `id`, falling back to the default when it was deleted. */
+export function findProfile(custom: DeviceProfile[], id: string): DeviceProfile {
+  return availableProfiles(custom).find(p => p.id === id) ?? DEFAULT_DEVICE_PROFILE;
+}
+
+// ============================================================================
+// Derived Settings
+// ============================================================================
+
+function filtersFor(identity: DeviceIdentity<unknown>): HIDDeviceFilter[] {
+  const filter: HIDDeviceFilter = { vendorId: identity.vendorId, productId: identity.productId };
+  if (identity.usagePage !== null) filter.usagePage = identity.usagePage;
+  return [filter];
+}
+
+export function dongleFilters(profile: DeviceProfile): HIDDeviceFilter[] {
+  return filtersFor(profile.dongle);
+}
+
+export function targetFilters(profile: DeviceProfile): HIDDeviceFilter[] {
+  return filtersFor(profile.target);
+}
+
+/** Framing for the dongle's fragmented transfers. */
+export function fragmentOptionsFor(profile: DeviceProfile): FragmentOptions {
+  return {
+    packetSize: profile.reportSize - 1,
+    chunkSize: profile.chunkSize ?? undefined,
+    sequence: profile.sequence,
+  };
+}
+
+// ============================================================================
+// JSON Import / Export
+// ============================================================================
+
+export function exportProfile(profile: DeviceProfile): string {
+  return JSON.stringify(profile, null, 2);
+}
+
+function readInteger(value: unknown, path: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${path} must be an integer from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function readReportIds<K extends string>(value: unknown, path: string, keys: readonly K[]): Record<K, number> {
+  const object = readObject(value, path);
+  const ids = Object.fromEntries(keys.map(key => [key, readInteger(object[key], `${path}.${key}`, 1, 0xff)])) as Record<K, number>;
+  if (new Set(Object.values(ids)).size !== keys.length) {
+    throw new Error(`${path} must not reuse a report ID`);
+  }
+  return ids;
+}
+
+function readIdentity<K extends string>(value: unknown, path: string, keys: readonly K[]): DeviceIdentity<Record<K, number>> {
+  const object = readObject(value, path);
+  return {
+    vendorId: readInteger(object.vendorId, `${path}.vendorId`, 0, 0xffff),
+    productId: readInteger(object.productId, `${path}.productId`, 0, 0xffff),
+    usagePage: object.usagePage == null ? null : readInteger(object.usagePage, `${path}.usagePage`, 0, 0xffff),
+    reportIds: readReportIds(object.reportIds, `${path}.reportIds`, keys),
+  };
+}
+
+const DONGLE_REPORT_KEYS = ['licenseIn', 'licenseOut', 'counterIn', 'counterOut'] as const;
+const TARGET_REPORT_KEYS = [
+  'uuidRequest', 'uuidResponse', 'storeLicense', 'storeLicenseAck', 'readLicenseRequest', 'readLicenseResponse',
+] as const;
+
+/** Parse and validate an exported profile. Throws with the offending field on bad input. */
+export function parseProfile(json: string): DeviceProfile {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON document');
+  }
+  const object = readObject(value, 'profile');
+
+  if (typeof object.id !== 'string' || !/^[a-z0-9][a-z0-9._-]*$/i.test(object.id)) {
+    throw new Error('profile.id must be letters, digits, ".", "_" or "-"');
+  }
+  if (typeof object.name !== 'string' || !object.name.trim()) {
+    throw new Error('profile.name must be a non-empty string');
+  }
+
+  const reportSize = readInteger(object.reportSize, 'profile.reportSize', 4, 1024);
+  const sequence = object.sequence === undefined ? false : object.sequence;
+  if (typeof sequence !== 'boolean') {
+    throw new Error('profile.sequence must be true or false');
+  }
+  // Header is a length byte plus the optional sequence byte
+  const maxChunk = Math.min(reportSize - 1 - (sequence ? 2 : 1), 0xff);
+
+  return {
+    id: object.id,
+    name: object.name.trim(),
+    dongle: readIdentity(object.dongle, 'profile.dongle', DONGLE_REPORT_KEYS),
+    target: readIdentity(object.target, 'profile.target', TARGET_REPORT_KEYS),
+    reportSize,
+    uuidLength: readInteger(object.uuidLength, 'profile.uuidLength', 1, 4096),
+    licenseLength: readInteger(object.licenseLength, 'profile.licenseLength', 1, 4096),
+    chunkSize: object.chunkSize == null ? null : readInteger(object.chunkSize, 'profile.chunkSize', 1, maxChunk),
+    sequence,
+  };
+}
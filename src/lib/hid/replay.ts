@@ -0,0 +1,135 @@
+import { SimulatedTransport } from './simulator';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE } from './profiles';
+import type { RecordedPacket } from '@/lib/logs/capture';
+
+// ============================================================================
+// Replay Transport
+// ============================================================================
+
+export type ReplayDivergenceKind = 'unexpected-report' | 'payload-mismatch' | 'extra-report';
+
+/** A report the client sent that does not match the recording. */
+export interface ReplayDivergence {
+  device: string;
+  kind: ReplayDivergenceKind;
+  /** Recorded tx packet expected at that point; null past the end of the recording. */
+  expected: RecordedPacket | null;
+  actual: { reportId: number; payload: Uint8Array };
+  message: string;
+}
+
+export interface ReplayTransportOptions {
+  productName?: string;
+  latencyMs?: number;
+  /** Supplies the USB IDs to claim. Defaults to `DEFAULT_DEVICE_PROFILE`. */
+  profile?: DeviceProfile;
+  onDivergence?: (divergence: ReplayDivergence) => void;
+}
+
+function hex(reportId: number): string {
+  return `0x${reportId.toString(16).padStart(2, '0').toUpperCase()}`;
+}
+
+function firstDifference(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return a.length === b.length ? -1 : length;
+}
+
+/**
+ * Plays one device's side of a recorded session. Every report the client
+ * sends is compared with the next recorded tx packet, then the rx packets
+ * recorded after it are delivered in order. On a divergence the recording
+ * still advances, so a run gets as far as the capture allows.
+ *
+ * Only sessions with one device per role replay faithfully: packets are
+ * matched by device name ('Dongle', 'Target'), not by physical unit.
+ */
+export class ReplayTransport extends SimulatedTransport {
+  readonly productName: string;
+  readonly vendorId: number;
+  readonly productId: number;
+  readonly divergences: ReplayDivergence[] = [];
+
+  private cursor = 0;
+  private readonly onDivergence?: (divergence: ReplayDivergence) => void;
+
+  constructor(
+    readonly device: string,
+    private readonly packets: RecordedPacket[],
+    options: ReplayTransportOptions = {}
+  ) {
+    super(options.latencyMs);
+    this.productName = options.productName ?? `Replayed ${device}`;
+    this.onDivergence = options.onDivergence;
+
+    // Claim the role's USB IDs so the clients' filters accept the transport
+    const profile = options.profile ?? DEFAULT_DEVICE_PROFILE;
+    const identity = device === 'Target' ? profile.target : profile.dongle;
+    this.vendorId = identity.vendorId;
+    this.productId = identity.productId;
+  }
+
+  /** Recorded packets not replayed yet. */
+  get remaining(): number {
+    return this.packets.length - this.cursor;
+  }
+
+  async open(filters: HIDDeviceFilter[]): Promise<void> {
+    await super.open(filters);
+    this.deliverResponses();
+  }
+
+  async reconnect(filters: HIDDeviceFilter[]): Promise<boolean> {
+    const opened = await super.reconnect(filters);
+    if (opened) this.deliverResponses();
+    return opened;
+  }
+
+  protected handleReport(reportId: number, data: Uint8Array) {
+    const index = this.packets.findIndex((packet, i) => i >= this.cursor && packet.direction === 'tx');
+    const actual = { reportId, payload: data };
+
+    if (index === -1) {
+      this.diverge('extra-report', null, actual, `${this.device}: ${hex(reportId)} sent after the recording ended`);
+      return;
+    }
+
+    const expected = this.packets[index];
+    if (expected.reportId !== reportId) {
+      this.diverge('unexpected-report', expected, actual,
+        `${this.device}: sent ${hex(reportId)}, recording has ${hex(expected.reportId)} (packet ${index})`);
+    } else {
+      const offset = firstDifference(expected.payload, data);
+      if (offset !== -1) {
+        this.diverge('payload-mismatch', expected, actual,
+          `${this.device}: ${hex(reportId)} payload differs from packet ${index} at byte ${offset}` +
+          (expected.payload.length !== data.length ? ` (length ${data.length}, recorded ${expected.payload.length})` : ''));
+      }
+    }
+
+    this.cursor = index + 1;
+    this.deliverResponses();
+  }
+
+  /** Emit every rx packet up to the next recorded tx. */
+  private deliverResponses() {
+    while (this.cursor < this.packets.length && this.packets[this.cursor].direction === 'rx') {
+      const packet = this.packets[this.cursor++];
+      this.emit(packet.reportId, packet.payload.slice());
+    }
+  }
+
+  private diverge(
+    kind: ReplayDivergenceKind,
+    expected: RecordedPacket | null,
+    actual: ReplayDivergence['actual'],
+    message: string
+  ) {
+    const divergence: ReplayDivergence = { device: this.device, kind, expected, actual, message };
+    this.divergences.push(divergence);
+    this.onDivergence?.(divergence);
+  }
+}
@@ -0,0 +1,314 @@
+import { crc32 } from './checksum';
+import { NotConnectedError, UserCancelledPickerError } from './errors';
+import { fragment, FragmentOptions, Reassembler } from './fragmentation';
+import { HIDTransport, HIDTransportFactory, InputReportListener, matchesFilters } from './transport';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE, fragmentOptionsFor } from './profiles';
+import { encodeLicenseBody } from '@/lib/license/format';
+import { SIMULATOR_KEY_ID, signLicense, simulatorSigningKey } from '@/lib/license/signature';
+
+// ============================================================================
+// Simulated Transport Base
+// ============================================================================
+
+/**
+ * In-memory stand-in for a HID device. Reports sent by the client are handed
+ * to `handleReport`; responses are queued with `emit` and delivered
+ * asynchronously, one packet per task, like a real device would.
+ */
+export abstract class SimulatedTransport implements HIDTransport {
+  abstract readonly productName: string;
+  readonly serialNumber: string | null = null;
+  abstract readonly vendorId: number;
+  abstract readonly productId: number;
+
+  private opened = false;
+  private plugged = true;
+  private pendingEmits = 0;
+  private inputListeners = new Set<InputReportListener>();
+  private disconnectListeners = new Set<() => void>();
+  private connectListeners = new Map<() => void, HIDDeviceFilter[]>();
+
+  constructor(protected readonly latencyMs = 5) {}
+
+  get isOpen(): boolean {
+    return this.opened;
+  }
+
+  get isPlugged(): boolean {
+    return this.plugged;
+  }
+
+  async open(filters: HIDDeviceFilter[]): Promise<void> {
+    if (!this.plugged || !matchesFilters(this, filters)) {
+      throw new UserCancelledPickerError();
+    }
+
+    this.opened = true;
+  }
+
+  async reconnect(filters: HIDDeviceFilter[]): Promise<boolean> {
+    if (!this.plugged || !matchesFilters(this, filters)) {
+      return false;
+    }
+
+    this.opened = true;
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.opened = false;
+  }
+
+  async sendReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new NotConnectedError(null, reportId);
+    }
+    this.handleReport(reportId, data.slice());
+  }
+
+  async sendFeatureReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.opened) {
+      throw new NotConnectedError(null, reportId);
+    }
+  }
+
+  addInputReportListener(listener: InputReportListener): () => void {
+    this.inputListeners.add(listener);
+    return () => this.inputListeners.delete(listener);
+  }
+
+  addDisconnectListener(listener: () => void): () => void {
+    this.disconnectListeners.add(listener);
+    return () => this.disconnectListeners.delete(listener);
+  }
+
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void {
+    this.connectListeners.set(listener, filters);
+    return () => this.connectListeners.delete(listener);
+  }
+
+  /** Simulate physically removing the device. */
+  unplug() {
+    this.plugged = false;
+    this.opened = false;
+    for (const listener of [...this.disconnectListeners]) {
+      listener();
+    }
+  }
+
+  /** Simulate plugging the device back in. It still has to be opened again. */
+  plug() {
+    this.plugged = true;
+
+    // Announce it after a short enumeration delay, like navigator.hid 'connect'
+    setTimeout(() => {
+      if (!this.plugged) return;
+      for (const [listener, filters] of [...this.connectListeners]) {
+        if (matchesFilters(this, filters)) listener();
+      }
+    }, this.latencyMs);
+  }
+
+  protected emit(reportId: number, data: Uint8Array) {
+    this.pendingEmits++;
+    const delay = this.latencyMs * this.pendingEmits;
+
+    setTimeout(() => {
+      this.pendingEmits--;
+      if (!this.opened) return;
+      for (const listener of [...this.inputListeners]) {
+        listener(reportId, data);
+      }
+    }, delay);
+  }
+
+  protected abstract handleReport(reportId: number, data: Uint8Array): void;
+}
+
+// ============================================================================
+// Simulated License Dongle
+// ============================================================================
+
+export interface SimulatedDongleOptions {
+  counter?: number;
+  serialNumber?: string;
+  latencyMs?: number;
+  /** Product variant to emulate. Defaults to `DEFAULT_DEVICE_PROFILE`. */
+  profile?: DeviceProfile;
+  /** Framing the simulated firmware speaks, when it differs from the profile's. */
+  fragmentOptions?: FragmentOptions;
+}
+
+export class SimulatedDongle extends SimulatedTransport {
+  readonly productName = 'Simulated License Dongle';
+  readonly vendorId: number;
+  readonly productId: number;
+
+  readonly serialNumber: string | null;
+  counter: number;
+  private readonly profile: DeviceProfile;
+  private readonly fragmentOptions: FragmentOptions;
+  private uuidReassembler: Reassembler;
+
+  constructor(options: SimulatedDongleOptions = {}) {
+    super(options.latencyMs);
+    this.profile = options.profile ?? DEFAULT_DEVICE_PROFILE;
+    this.vendorId = this.profile.dongle.vendorId;
+    this.productId = this.profile.dongle.productId;
+    this.serialNumber = options.serialNumber ?? null;
+    this.counter = options.counter ?? 100;
+    this.fragmentOptions = options.fragmentOptions ?? fragmentOptionsFor(this.profile);
+    this.uuidReassembler = this.newReassembler();
+  }
+
+  private newReassembler(): Reassembler {
+    return new Reassembler(this.profile.uuidLength, this.fragmentOptions);
+  }
+
+  protected handleReport(reportId: number, data: Uint8Array) {
+    const reportIds = this.profile.dongle.reportIds;
+    switch (reportId) {
+      case reportIds.counterOut: {
+        const response = new Uint8Array(this.profile.reportSize - 1);
+        response[0] = this.counter & 0xff;
+        response[1] = (this.counter >> 8) & 0xff;
+        this.emit(reportIds.counterIn, response);
+        break;
+      }
+
+      case reportIds.licenseOut: {
+        try {
+          if (this.uuidReassembler.push(data)) {
+            this.issueLicense(this.uuidReassembler.result());
+            this.uuidReassembler = this.newReassembler();
+          }
+        } catch {
+          // Bad framing: drop the partial UUID, the client will time out
+          this.uuidReassembler = this.newReassembler();
+        }
+        break;
+      }
+    }
+  }
+
+  private issueLicense(uuid: Uint8Array) {
+    // An empty dongle stays silent, like the firmware does.
+    if (this.counter <= 0) return;
+    const sequence = this.counter--;
+
+    createSimulatedLicense(uuid, sequence).then(signed => {
+      // Variants with another license size get the standard license cut or zero-padded to fit
+      const license = new Uint8Array(this.profile.licenseLength);
+      license.set(signed.subarray(0, license.length));
+      for (const packet of fragment(license, this.fragmentOptions)) {
+        this.emit(this.profile.dongle.reportIds.licenseIn, packet);
+      }
+    });
+  }
+}
+
+// ============================================================================
+// Simulated Target Device
+// ============================================================================
+
+export interface SimulatedTargetOptions {
+  uuid?: Uint8Array;
+  latencyMs?: number;
+  /** Product variant to emulate. Defaults to `DEFAULT_DEVICE_PROFILE`. */
+  profile?: DeviceProfile;
+}
+
+export class SimulatedTarget extends SimulatedTransport {
+  readonly productName = 'Simulated Target Device';
+  readonly vendorId: number;
+  readonly productId: number;
+
+  uuid: Uint8Array;
+  storedLicense: Uint8Array | null = null;
+  /** Fault injection: silently ignore STORE_LICENSE reports. */
+  dropLicenseWrites = false;
+  private readonly profile: DeviceProfile;
+
+  constructor(options: SimulatedTargetOptions = {}) {
+    super(options.latencyMs);
+    this.profile = options.profile ?? DEFAULT_DEVICE_PROFILE;
+    this.vendorId = this.profile.target.vendorId;
+    this.productId = this.profile.target.productId;
+    this.uuid = options.uuid ?? randomUUIDBytes(this.profile.uuidLength);
+  }
+
+  /** Swap in a fresh unit: new UUID, no license. */
+  replaceUnit(uuid: Uint8Array = randomUUIDBytes(this.profile.uuidLength)) {
+    this.uuid = uuid;
+    this.storedLicense = null;
+  }
+
+  protected handleReport(reportId: number, data: Uint8Array) {
+    const reportIds = this.profile.target.reportIds;
+    switch (reportId) {
+      case reportIds.uuidRequest:
+        this.emit(reportIds.uuidResponse, this.uuid.slice());
+        break;
+
+      case reportIds.storeLicense: {
+        if (this.dropLicenseWrites) break;
+
+        const ok = data.length === this.profile.licenseLength;
+        if (ok) {
+          this.storedLicense = data;
+        }
+
+        const checksum = crc32(data);
+        const ack = new Uint8Array(this.profile.reportSize - 1);
+        ack[0] = ok ? 0x00 : 0x01;
+        ack[1] = data.length & 0xff;
+        ack[2] = (data.length >> 8) & 0xff;
+        ack[3] = checksum & 0xff;
+        ack[4] = (checksum >>> 8) & 0xff;
+        ack[5] = (checksum >>> 16) & 0xff;
+        ack[6] = (checksum >>> 24) & 0xff;
+        this.emit(reportIds.storeLicenseAck, ack);
+        break;
+      }
+
+      case reportIds.readLicenseRequest:
+        this.emit(reportIds.readLicenseResponse, this.storedLicense?.slice() ?? new Uint8Array(this.profile.licenseLength));
+        break;
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function randomUUIDBytes(length = DEFAULT_DEVICE_PROFILE.uuidLength): Uint8Array {
+  const uuid = new Uint8Array(length);
+  crypto.getRandomValues(uuid);
+  return uuid;
+}
+
+/** A well-formed license for `uuid`, signed with the simulator key (see `SIMULATOR_PUBLIC_KEY`). */
+export async function createSimulatedLicense(uuid: Uint8Array, sequence = 0): Promise<Uint8Array> {
+  const license = await encodeLicenseBody({ keyId: SIMULATOR_KEY_ID, issuedAt: new Date(), sequence, uuid });
+  await signLicense(license, await simulatorSigningKey());
+  return license;
+}
+
+// ============================================================================
+// Simulated Rack
+// ============================================================================
+
+/** A fixed set of simulated devices, handed out like devices in the WebHID picker. */
+export class SimulatedRack<T extends SimulatedTransport> implements HIDTransportFactory {
+  constructor(readonly devices: T[]) {}
+
+  create(): HIDTransport | null {
+    return this.devices.find(d => d.isPlugged && !d.isOpen) ?? null;
+  }
+
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void {
+    const removers = this.devices.map(d => d.addConnectListener(filters, listener));
+    return () => removers.forEach(remove => remove());
+  }
+}
@@ -0,0 +1,70 @@
+// ============================================================================
+// Transport Interface
+// ============================================================================
+
+export type InputReportListener = (reportId: number, data: Uint8Array) => void;
+
+/**
+ * Byte-level link to a single HID device. The clients only ever talk to a
+ * transport, so the same protocol code can run against real hardware (WebHID
+ * in the browser, node-hid in the CLI) or against the in-memory simulator.
+ */
+export interface HIDTransport {
+  readonly productName: string | null;
+  /** WebHID does not expose serial numbers, so this is null in the browser. */
+  readonly serialNumber: string | null;
+  readonly isOpen: boolean;
+
+  /** Select and open a device matching one of the filters. */
+  open(filters: HIDDeviceFilter[]): Promise<void>;
+  /**
+   * Open an already-permitted device matching the filters without prompting.
+   * Resolves false when there is none.
+   */
+  reconnect(filters: HIDDeviceFilter[]): Promise<boolean>;
+  close(): Promise<void>;
+
+  sendReport(reportId: number, data: Uint8Array): Promise<void>;
+  sendFeatureReport(reportId: number, data: Uint8Array): Promise<void>;
+
+  /** Subscribe to input reports. Returns an unsubscribe function. */
+  addInputReportListener(listener: InputReportListener): () => void;
+  /** Subscribe to the device going away. Returns an unsubscribe function. */
+  addDisconnectListener(listener: () => void): () => void;
+  /** Subscribe to a permitted device matching the filters being plugged in. */
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void;
+}
+
+/**
+ * Hands out transports for a role that may have several devices attached at
+ * once (the dongle pool). Each transport binds to one device when opened.
+ */
+export interface HIDTransportFactory {
+  /** A fresh transport, or null when no further device can be attached. */
+  create(): HIDTransport | null;
+  /** Subscribe to a permitted device matching the filters being plugged in. */
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void;
+}
+
+interface FilterableDevice {
+  vendorId: number;
+  productId: number;
+  /** node-hid reports one usage page per interface. */
+  usagePage?: number;
+  /** WebHID reports the usage page of every top-level collection. */
+  collections?: HIDCollectionInfo[];
+}
+
+/** Usage pages are only checked on devices that report them (not the simulator). */
+function matchesUsagePage(device: FilterableDevice, usagePage: number): boolean {
+  if (device.usagePage !== undefined) return device.usagePage === usagePage;
+  return !device.collections || device.collections.some(c => c.usagePage === usagePage);
+}
+
+export function matchesFilters(device: FilterableDevice, filters: HIDDeviceFilter[]): boolean {
+  return filters.length === 0 || filters.some(f =>
+    (f.vendorId === undefined || f.vendorId === device.vendorId) &&
+    (f.productId === undefined || f.productId === device.productId) &&
+    (f.usagePage === undefined || matchesUsagePage(device, f.usagePage))
+  );
+}
@@ -1,15 +1,37 @@
+import type { HIDTransport } from './transport';
+
 export interface DeviceConnectionState {
   isConnected: boolean;
-  device: HIDDevice | null;
+  /** Not connected, but will attach automatically when a permitted device is plugged in. */
+  isWaiting: boolean;
+  device: HIDTransport | null;
   error: string | null;
 }
 
 export type LogType = 'info' | 'success' | 'error' | 'rx' | 'tx';
 
+/** A report as it crossed the wire, recorded by `logPacket`. */
+export interface LogPacket {
+  direction: 'tx' | 'rx';
+  reportId: number;
+  payload: Uint8Array;
+}
+
 export interface LogEntry {
   id: string;
   timestamp: number;
   type: LogType;
   message: string;
   data?: string; // Hex representation
+  /** Client that produced the entry ('Dongle', 'Target'). */
+  device?: string;
+  packet?: LogPacket;
 }
+
+/**
+ * How `TargetDeviceClient` confirms a license write:
+ * - 'ack': wait for the STORE_LICENSE_ACK report and compare length + CRC-32
+ * - 'readback': read the stored license back and compare every byte
+ * - 'off': fire and forget (firmware without verification support)
+ */
+export type LicenseVerifyMode = 'ack' | 'readback' | 'off';
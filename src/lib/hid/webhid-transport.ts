@@ -0,0 +1,136 @@
+import { UserCancelledPickerError, WebHIDUnsupportedError, NotConnectedError, DeviceInUseError } from './errors';
+import { HIDTransport, HIDTransportFactory, InputReportListener, matchesFilters } from './transport';
+
+// ============================================================================
+// WebHID Transport
+// ============================================================================
+
+export class WebHIDTransport implements HIDTransport {
+  private device: HIDDevice | null = null;
+  readonly serialNumber = null;
+
+  get productName(): string | null {
+    return this.device?.productName ?? null;
+  }
+
+  get isOpen(): boolean {
+    return this.device !== null && this.device.opened;
+  }
+
+  async open(filters: HIDDeviceFilter[]): Promise<void> {
+    if (!navigator.hid) {
+      throw new WebHIDUnsupportedError();
+    }
+
+    const devices = await navigator.hid.requestDevice({ filters });
+
+    if (devices.length === 0) {
+      throw new UserCancelledPickerError();
+    }
+
+    // An opened device already belongs to another transport in this window
+    if (devices[0].opened) {
+      throw new DeviceInUseError();
+    }
+
+    this.device = devices[0];
+    await this.device.open();
+  }
+
+  async reconnect(filters: HIDDeviceFilter[]): Promise<boolean> {
+    if (!navigator.hid) {
+      return false;
+    }
+
+    const devices = await navigator.hid.getDevices();
+    const device = devices.find(d => !d.opened && matchesFilters(d, filters));
+    if (!device) {
+      return false;
+    }
+
+    this.device = device;
+    await device.open();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.device) {
+      await this.device.close();
+      this.device = null;
+    }
+  }
+
+  async sendReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.device || !this.device.opened) {
+      throw new NotConnectedError(null, reportId);
+    }
+    await this.device.sendReport(reportId, data as unknown as BufferSource);
+  }
+
+  async sendFeatureReport(reportId: number, data: Uint8Array): Promise<void> {
+    if (!this.device || !this.device.opened) {
+      throw new NotConnectedError(null, reportId);
+    }
+    await this.device.sendFeatureReport(reportId, data as unknown as BufferSource);
+  }
+
+  addInputReportListener(listener: InputReportListener): () => void {
+    const device = this.device;
+    if (!device) {
+      return () => {};
+    }
+
+    const handler = (event: HIDInputReportEvent) => {
+      listener(event.reportId, new Uint8Array(event.data.buffer, event.data.byteOffset, event.data.byteLength));
+    };
+
+    device.addEventListener('inputreport', handler);
+    return () => device.removeEventListener('inputreport', handler);
+  }
+
+  addDisconnectListener(listener: () => void): () => void {
+    if (!navigator.hid) {
+      return () => {};
+    }
+
+    // HIDDevice itself never fires 'disconnect'; the event is raised on navigator.hid.
+    const handler = (event: HIDConnectionEvent) => {
+      if (event.device === this.device) {
+        listener();
+      }
+    };
+
+    navigator.hid.addEventListener('disconnect', handler);
+    return () => navigator.hid.removeEventListener('disconnect', handler);
+  }
+
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void {
+    return addWebHIDConnectListener(filters, listener);
+  }
+}
+
+function addWebHIDConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void {
+  if (!navigator.hid) {
+    return () => {};
+  }
+
+  // Only fires for devices this origin has already been granted
+  const handler = (event: HIDConnectionEvent) => {
+    if (matchesFilters(event.device, filters)) {
+      listener();
+    }
+  };
+
+  navigator.hid.addEventListener('connect', handler);
+  return () => navigator.hid.removeEventListener('connect', handler);
+}
+
+export class WebHIDTransportFactory implements HIDTransportFactory {
+  create(): HIDTransport {
+    return new WebHIDTransport();
+  }
+
+  addConnectListener(filters: HIDDeviceFilter[], listener: () => void): () => void {
+    return addWebHIDConnectListener(filters, listener);
+  }
+}
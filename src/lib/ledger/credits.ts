@@ -0,0 +1,107 @@
+import type { LedgerEntry } from './ledger';
+
+// ============================================================================
+// Credit Accounting
+// ============================================================================
+//
+// Every license generation must cost exactly one dongle credit. The counters
+// read around each generation (and recorded in the ledger) are checked for:
+// - 'no-decrement': the dongle issued a license without spending a credit
+// - 'multi-decrement': more than one credit went on a single license
+// - 'increase': the counter went up, within a run or since the last one
+// - 'unaccounted': credits disappeared between runs (used outside this tool)
+
+export type CreditAnomalyKind = 'no-decrement' | 'multi-decrement' | 'increase' | 'unaccounted';
+
+export interface CreditAnomaly {
+  kind: CreditAnomalyKind;
+  dongle: string;
+  timestamp: number;
+  /** Counter the check started from. */
+  expected: number;
+  actual: number;
+}
+
+export function describeCreditAnomaly(anomaly: Pick<CreditAnomaly, 'kind' | 'expected' | 'actual'>): string {
+  const { kind, expected, actual } = anomaly;
+  switch (kind) {
+    case 'no-decrement': return `Counter stayed at ${actual} after a license was issued`;
+    case 'multi-decrement': return `Counter dropped by ${expected - actual} for one license (${expected} → ${actual})`;
+    case 'increase': return `Counter increased from ${expected} to ${actual}`;
+    case 'unaccounted': return `${expected - actual} credits used outside this tool (${expected} → ${actual})`;
+  }
+}
+
+/** Check the counters read before and after one generation. */
+export function checkGeneration(before: number | null, after: number | null): CreditAnomalyKind | null {
+  if (before === null || after === null) return null;
+  if (after === before) return 'no-decrement';
+  if (after > before) return 'increase';
+  if (after < before - 1) return 'multi-decrement';
+  return null;
+}
+
+// ============================================================================
+// Per-Dongle History
+// ============================================================================
+
+export interface CreditSample {
+  timestamp: number;
+  counter: number;
+}
+
+export interface DongleCreditHistory {
+  dongle: string;
+  samples: CreditSample[];
+  anomalies: CreditAnomaly[];
+  /** Licenses generated (reused licenses cost nothing and are not counted). */
+  generated: number;
+  /** Last counter seen in the ledger. */
+  lastCounter: number | null;
+}
+
+/**
+ * Group ledger entries by dongle and replay their counters in time order.
+ * Entries recorded before dongles were named are left out.
+ */
+export function creditHistory(entries: LedgerEntry[]): DongleCreditHistory[] {
+  const byDongle = new Map<string, LedgerEntry[]>();
+  for (const entry of entries) {
+    if (!entry.dongle || entry.counterBefore === null) continue;
+    const list = byDongle.get(entry.dongle) ?? [];
+    list.push(entry);
+    byDongle.set(entry.dongle, list);
+  }
+
+  return [...byDongle].map(([dongle, list]) => {
+    const history: DongleCreditHistory = { dongle, samples: [], anomalies: [], generated: 0, lastCounter: null };
+    // A run that died mid-generation may have spent a credit nobody saw
+    let unconfirmedCredit = 0;
+    const flag = (kind: CreditAnomalyKind, timestamp: number, expected: number, actual: number) =>
+      history.anomalies.push({ kind, dongle, timestamp, expected, actual });
+
+    for (const entry of list.sort((a, b) => a.timestamp - b.timestamp)) {
+      const before = entry.counterBefore!;
+      const last = history.lastCounter;
+      if (last !== null && before > last) flag('increase', entry.timestamp, last, before);
+      if (last !== null && before < last - unconfirmedCredit) flag('unaccounted', entry.timestamp, last, before);
+      history.samples.push({ timestamp: entry.timestamp, counter: before });
+      history.lastCounter = before;
+
+      unconfirmedCredit = entry.outcome === 'failed' && entry.license === null && entry.counterAfter === null ? 1 : 0;
+      if (entry.counterAfter === null) continue;
+      history.generated++;
+      const kind = checkGeneration(before, entry.counterAfter);
+      if (kind) flag(kind, entry.timestamp, before, entry.counterAfter);
+      // Keep the two samples of one run apart so the chart shows the step
+      history.samples.push({ timestamp: entry.timestamp + 1, counter: entry.counterAfter });
+      history.lastCounter = entry.counterAfter;
+    }
+    return history;
+  });
+}
+
+/** At or below the operator's warning threshold. Unread counters never warn. */
+export function isLowCredit(counter: number | null, threshold: number): boolean {
+  return counter !== null && counter <= threshold;
+}
@@ -0,0 +1,170 @@
+import { STORES, withStore } from '@/lib/storage/db';
+import { getSealed, getSealedByUUID, putSealed } from '@/lib/storage/vault';
+import { LicenseProcessData } from '@/lib/provisioning/license-process';
+import { LicenseRejectedError } from '@/lib/hid/errors';
+import { CreditAnomalyKind } from './credits';
+import { currentOperator } from '@/lib/operators/session';
+import { appendAuditRecord } from '@/lib/audit/audit-log';
+import { toHex } from '@/lib/utils';
+
+// ============================================================================
+// Ledger Types
+// ============================================================================
+
+/**
+ * 'rejected': the license failed the offline check and was never written.
+ * 'generated': issued but not written to a unit yet (a bulk UUID list, or the
+ * manual flow until its write step settles the entry; see `settleLedgerEntry`).
+ */
+export type LedgerOutcome = 'success' | 'failed' | 'rejected' | 'skipped' | 'generated';
+
+export type LedgerSource = 'auto' | 'batch' | 'station' | 'manual' | 'bulk';
+
+/** One licensing attempt. UUID and license are stored as lowercase hex. */
+export interface LedgerEntry {
+  id: string;
+  timestamp: number;
+  source: LedgerSource;
+  outcome: LedgerOutcome;
+  uuid: string | null;
+  license: string | null;
+  counterBefore: number | null;
+  counterAfter: number | null;
+  error: string | null;
+  /** The stored license was re-written instead of generating a new one. */
+  reusedLicense?: boolean;
+  /** Dongle the credit was drawn from (serial or product name). */
+  dongle?: string | null;
+  /** The counters around the generation did not differ by exactly one. */
+  creditAnomaly?: CreditAnomalyKind | null;
+  /** Name of the operator signed in when the attempt was made. */
+  operator?: string | null;
+}
+
+export interface LedgerQuery {
+  uuidPrefix?: string;
+  outcome?: LedgerOutcome;
+  /** Inclusive lower bound, epoch ms. */
+  from?: number;
+  /** Inclusive upper bound, epoch ms. */
+  to?: number;
+}
+
+// ============================================================================
+// Ledger Store
+// ============================================================================
+
+// UUID and license are sealed by the vault; see src/lib/storage/vault.ts
+
+export async function addLedgerEntry(entry: LedgerEntry): Promise<void> {
+  await putSealed(STORES.LEDGER, [entry]);
+}
+
+export async function deleteLedgerEntry(id: string): Promise<void> {
+  await withStore(STORES.LEDGER, 'readwrite', store => store.delete(id));
+}
+
+/** Entries matching the query, newest first. */
+export async function listLedgerEntries(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+  const range = query.from !== undefined || query.to !== undefined
+    ? IDBKeyRange.bound(query.from ?? 0, query.to ?? Number.MAX_SAFE_INTEGER)
+    : undefined;
+
+  const entries = await getSealed<LedgerEntry>(STORES.LEDGER, store =>
+    store.index('timestamp').getAll(range)
+  );
+
+  const prefix = query.uuidPrefix?.replace(/\s/g, '').toLowerCase();
+
+  return entries
+    .filter(entry => !query.outcome || entry.outcome === query.outcome)
+    .filter(entry => !prefix || (entry.uuid !== null && entry.uuid.startsWith(prefix)))
+    .reverse();
+}
+
+/**
+ * Most recent license issued for a UUID, if any, whether or not its write
+ * succeeded (licenses the write gate rejected are skipped). This is what lets a re-flashed or previously failed unit get its
+ * license back without spending another dongle credit. Throws VaultLockedError
+ * while the storage is locked, which must never be read as "not issued".
+ */
+export async function findIssuedLicense(uuid: Uint8Array | string): Promise<LedgerEntry | null> {
+  const entries = await getSealedByUUID<LedgerEntry>(
+    STORES.LEDGER,
+    typeof uuid === 'string' ? uuid.toLowerCase() : toHex(uuid)
+  );
+
+  const issued = entries
+    .filter(entry => entry.license !== null && entry.outcome !== 'rejected')
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return issued[0] ?? null;
+}
+
+/** Ledger outcome for a run that threw `error`. */
+export function failureOutcome(error: unknown): LedgerOutcome {
+  return error instanceof LicenseRejectedError ? 'rejected' : 'failed';
+}
+
+/**
+ * Make sure the audit log holds the license in `data`; one already logged is
+ * left alone (see `appendAuditRecord`). Runs before a license is written, so
+ * a log that cannot be written blocks the write instead of losing the record.
+ */
+export async function auditLicense(source: LedgerSource, data: LicenseProcessData): Promise<void> {
+  if (!data.uuid || !data.license) return;
+  await appendAuditRecord({
+    source,
+    uuid: data.uuid,
+    license: data.license,
+    dongle: data.dongle,
+    counterBefore: data.counterBefore,
+    counterAfter: data.counterAfter,
+  });
+}
+
+/**
+ * Record the outcome of one licensing attempt. Storage failures are
+ * rethrown: an issued license missing from the ledger can never be found
+ * for reuse, so the caller has to tell the operator.
+ */
+export async function recordLicenseAttempt(
+  source: LedgerSource,
+  data: LicenseProcessData,
+  outcome: LedgerOutcome,
+  error: string | null = null
+): Promise<LedgerEntry> {
+  const entry: LedgerEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    source,
+    outcome,
+    uuid: data.uuid ? toHex(data.uuid) : null,
+    license: data.license ? toHex(data.license) : null,
+    counterBefore: data.counterBefore,
+    counterAfter: data.counterAfter,
+    error,
+    reusedLicense: data.reusedLicense,
+    dongle: data.dongle,
+    creditAnomaly: data.creditAnomaly,
+    operator: currentOperator()?.name ?? null,
+  };
+
+  await addLedgerEntry(entry);
+  return entry;
+}
+
+/**
+ * Replace the outcome of an entry recorded before the write (outcome
+ * 'generated') with the outcome of the write. Rethrows storage failures like
+ * `recordLicenseAttempt`.
+ */
+export async function settleLedgerEntry(
+  entry: LedgerEntry,
+  outcome: LedgerOutcome,
+  error: string | null = null
+): Promise<LedgerEntry> {
+  const settled: LedgerEntry = { ...entry, outcome, error };
+  await addLedgerEntry(settled);
+  return settled;
+}
@@ -0,0 +1,105 @@
+// ============================================================================
+// License Layout
+// ============================================================================
+//
+// The 256-byte license the dongle issues. Multi-byte integers are little-endian.
+//
+//   0x00   4  magic 'ORLC'
+//   0x04   1  format version
+//   0x05   1  signing key ID
+//   0x06   2  flags (reserved, zero)
+//   0x08   4  issued at, Unix seconds
+//   0x0C   4  sequence number (dongle counter before issue)
+//   0x10  32  UUID binding: SHA-256 of the target's UUID (any length)
+//   0x30 144  feature block (opaque to this tool)
+//   0xC0  64  ECDSA P-256 / SHA-256 signature (r || s) over 0x00-0xBF
+
+export const LICENSE_SIZE = 256;
+
+export const LICENSE_MAGIC = new Uint8Array([0x4f, 0x52, 0x4c, 0x43]); // 'ORLC'
+export const SUPPORTED_LICENSE_VERSIONS = [1];
+
+export const LICENSE_FIELDS = {
+  MAGIC: { offset: 0x00, length: 4 },
+  VERSION: { offset: 0x04, length: 1 },
+  KEY_ID: { offset: 0x05, length: 1 },
+  FLAGS: { offset: 0x06, length: 2 },
+  ISSUED_AT: { offset: 0x08, length: 4 },
+  SEQUENCE: { offset: 0x0c, length: 4 },
+  UUID_BINDING: { offset: 0x10, length: 32 },
+  FEATURES: { offset: 0x30, length: 144 },
+  SIGNATURE: { offset: 0xc0, length: 64 },
+} as const;
+
+export type LicenseField = keyof typeof LICENSE_FIELDS;
+
+/** The bytes the signature covers. */
+export const SIGNED_LENGTH = LICENSE_FIELDS.SIGNATURE.offset;
+
+export interface DecodedLicense {
+  magic: Uint8Array;
+  version: number;
+  keyId: number;
+  flags: number;
+  issuedAt: Date;
+  sequence: number;
+  uuidBinding: Uint8Array;
+  features: Uint8Array;
+  signature: Uint8Array;
+}
+
+export function licenseField(license: Uint8Array, field: LicenseField): Uint8Array {
+  const { offset, length } = LICENSE_FIELDS[field];
+  return license.subarray(offset, offset + length);
+}
+
+/** Split a 256-byte license into its fields. Does not validate anything. */
+export function decodeLicense(license: Uint8Array): DecodedLicense {
+  if (license.length !== LICENSE_SIZE) {
+    throw new Error(`License must be ${LICENSE_SIZE} bytes (got ${license.length})`);
+  }
+
+  const view = new DataView(license.buffer, license.byteOffset, license.byteLength);
+  return {
+    magic: licenseField(license, 'MAGIC').slice(),
+    version: view.getUint8(LICENSE_FIELDS.VERSION.offset),
+    keyId: view.getUint8(LICENSE_FIELDS.KEY_ID.offset),
+    flags: view.getUint16(LICENSE_FIELDS.FLAGS.offset, true),
+    issuedAt: new Date(view.getUint32(LICENSE_FIELDS.ISSUED_AT.offset, true) * 1000),
+    sequence: view.getUint32(LICENSE_FIELDS.SEQUENCE.offset, true),
+    uuidBinding: licenseField(license, 'UUID_BINDING').slice(),
+    features: licenseField(license, 'FEATURES').slice(),
+    signature: licenseField(license, 'SIGNATURE').slice(),
+  };
+}
+
+export interface LicenseBody {
+  version?: number;
+  keyId: number;
+  issuedAt: Date;
+  sequence: number;
+  uuid: Uint8Array;
+  features?: Uint8Array;
+}
+
+/** Lay out an unsigned license; the signature bytes are left zero. */
+export async function encodeLicenseBody(body: LicenseBody): Promise<Uint8Array<ArrayBuffer>> {
+  const license = new Uint8Array(LICENSE_SIZE);
+  const view = new DataView(license.buffer);
+
+  license.set(LICENSE_MAGIC, LICENSE_FIELDS.MAGIC.offset);
+  view.setUint8(LICENSE_FIELDS.VERSION.offset, body.version ?? SUPPORTED_LICENSE_VERSIONS[0]);
+  view.setUint8(LICENSE_FIELDS.KEY_ID.offset, body.keyId);
+  view.setUint32(LICENSE_FIELDS.ISSUED_AT.offset, Math.floor(body.issuedAt.getTime() / 1000), true);
+  view.setUint32(LICENSE_FIELDS.SEQUENCE.offset, body.sequence, true);
+  license.set(await uuidBinding(body.uuid), LICENSE_FIELDS.UUID_BINDING.offset);
+  if (body.features) {
+    license.set(body.features.subarray(0, LICENSE_FIELDS.FEATURES.length), LICENSE_FIELDS.FEATURES.offset);
+  }
+  return license;
+}
+
+/** SHA-256 of the UUID, as stored in the license. */
+export async function uuidBinding(uuid: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', uuid.slice()));
+}
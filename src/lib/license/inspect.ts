@@ -0,0 +1,138 @@
+import { toHex } from '@/lib/utils';
+import {
+  LICENSE_SIZE,
+  LICENSE_MAGIC,
+  SUPPORTED_LICENSE_VERSIONS,
+  DecodedLicense,
+  decodeLicense,
+  uuidBinding,
+} from './format';
+import { importPublicKey, verifyLicenseSignature } from './signature';
+import { HIDErrorDevice, LicenseRejectedError } from '@/lib/hid/errors';
+
+// ============================================================================
+// License Inspection
+// ============================================================================
+
+export type LicenseCheckId = 'size' | 'layout' | 'magic' | 'version' | 'uuid-binding' | 'signature';
+
+/** 'skipped' when an input the check needs (UUID, public key) was not given. */
+export type LicenseCheckStatus = 'pass' | 'fail' | 'skipped';
+
+export interface LicenseCheck {
+  id: LicenseCheckId;
+  label: string;
+  status: LicenseCheckStatus;
+  detail: string;
+}
+
+/**
+ * - 'accepted': every check the target performs passed
+ * - 'rejected': at least one failed
+ * - 'incomplete': nothing failed, but a check was skipped for lack of input
+ */
+export type LicenseVerdict = 'accepted' | 'rejected' | 'incomplete';
+
+export interface LicenseInspection {
+  decoded: DecodedLicense | null;
+  checks: LicenseCheck[];
+  verdict: LicenseVerdict;
+}
+
+function check(id: LicenseCheckId, label: string, status: LicenseCheckStatus, detail: string): LicenseCheck {
+  return { id, label, status, detail };
+}
+
+function verdictOf(checks: LicenseCheck[]): LicenseVerdict {
+  if (checks.some(c => c.status === 'fail')) return 'rejected';
+  if (checks.some(c => c.status === 'skipped')) return 'incomplete';
+  return 'accepted';
+}
+
+/**
+ * Decode a license and run the checks the target firmware applies before
+ * storing it. Never throws on bad input; problems show up as failed checks.
+ *
+ * @param uuid The target's UUID (any length), or null to skip the binding check
+ * @param publicKey PEM or hex public key (see `importPublicKey`), or null to skip the signature check
+ * @param licenseLength License length of the device profile. Only the standard
+ *   length has a known layout; other lengths are checked for size alone.
+ */
+export async function inspectLicense(
+  license: Uint8Array,
+  uuid: Uint8Array | null,
+  publicKey: string | null,
+  licenseLength = LICENSE_SIZE
+): Promise<LicenseInspection> {
+  if (license.length !== licenseLength) {
+    const checks = [check('size', 'Size', 'fail', `Expected ${licenseLength} bytes, got ${license.length}`)];
+    return { decoded: null, checks, verdict: 'rejected' };
+  }
+  if (licenseLength !== LICENSE_SIZE) {
+    const checks = [
+      check('size', 'Size', 'pass', `${licenseLength} bytes`),
+      check('layout', 'Layout', 'skipped', `No known layout for ${licenseLength}-byte licenses`),
+    ];
+    return { decoded: null, checks, verdict: 'incomplete' };
+  }
+
+  const decoded = decodeLicense(license);
+  const checks: LicenseCheck[] = [check('size', 'Size', 'pass', `${LICENSE_SIZE} bytes`)];
+
+  const magicOk = toHex(decoded.magic) === toHex(LICENSE_MAGIC);
+  checks.push(check('magic', 'Header', magicOk ? 'pass' : 'fail',
+    magicOk ? 'ORLC' : `Expected ${toHex(LICENSE_MAGIC)}, got ${toHex(decoded.magic)}`));
+
+  const versionOk = SUPPORTED_LICENSE_VERSIONS.includes(decoded.version);
+  checks.push(check('version', 'Format version', versionOk ? 'pass' : 'fail',
+    versionOk ? `v${decoded.version}` : `v${decoded.version} is not supported (known: ${SUPPORTED_LICENSE_VERSIONS.join(', ')})`));
+
+  if (!uuid) {
+    checks.push(check('uuid-binding', 'UUID binding', 'skipped', 'No UUID given'));
+  } else {
+    const expected = await uuidBinding(uuid);
+    const bound = toHex(expected) === toHex(decoded.uuidBinding);
+    checks.push(check('uuid-binding', 'UUID binding', bound ? 'pass' : 'fail',
+      bound ? 'License is bound to this UUID' : 'License was issued for a different UUID'));
+  }
+
+  if (!publicKey?.trim()) {
+    checks.push(check('signature', 'Signature', 'skipped', 'No public key configured'));
+  } else {
+    try {
+      const key = await importPublicKey(publicKey);
+      const valid = await verifyLicenseSignature(license, key);
+      checks.push(check('signature', 'Signature', valid ? 'pass' : 'fail',
+        valid ? `Valid (key ID 0x${decoded.keyId.toString(16).padStart(2, '0')})` : 'Does not verify with the configured key'));
+    } catch (e) {
+      checks.push(check('signature', 'Signature', 'skipped', `Public key unusable: ${(e as Error).message}`));
+    }
+  }
+
+  return { decoded, checks, verdict: verdictOf(checks) };
+}
+
+/**
+ * Write gate: throws LicenseRejectedError unless the license passes every
+ * check that ran. Size, layout and UUID binding need no key and always run;
+ * only the signature is skipped when no key is configured (a configured key
+ * that cannot be used rejects). Profiles with another license length have no
+ * known layout, so only their size is enforced. `device` is named in the
+ * error (see LicenseRejectedError).
+ */
+export async function assertLicenseAccepted(
+  license: Uint8Array,
+  uuid: Uint8Array,
+  publicKey: string | null,
+  licenseLength = LICENSE_SIZE,
+  device: HIDErrorDevice = null
+): Promise<LicenseInspection> {
+  const inspection = await inspectLicense(license, uuid, publicKey, licenseLength);
+  const hasKey = !!publicKey?.trim();
+
+  const failures = inspection.checks.filter(c => c.status === 'fail' || (c.id === 'signature' && c.status === 'skipped' && hasKey));
+  if (failures.length > 0) {
+    throw new LicenseRejectedError(failures.map(c => `${c.label}: ${c.detail}`), device);
+  }
+  return inspection;
+}
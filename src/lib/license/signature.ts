@@ -0,0 +1,100 @@
+import { fromHex } from '@/lib/utils';
+import { SIGNED_LENGTH, licenseField } from './format';
+
+// ============================================================================
+// License Signatures (ECDSA P-256 / SHA-256 via WebCrypto)
+// ============================================================================
+
+const ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+/**
+ * Import a verification key given as an SPKI PEM block or as hex of the
+ * 65-byte uncompressed point (04 || X || Y). Throws on anything else.
+ */
+export async function importPublicKey(text: string): Promise<CryptoKey> {
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('-----BEGIN PUBLIC KEY-----')) {
+    const base64 = trimmed
+      .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+      .replace(/\s/g, '');
+    const der = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+    return crypto.subtle.importKey('spki', der, ALGORITHM, true, ['verify']);
+  }
+
+  const hex = trimmed.replace(/\s/g, '');
+  if (!/^[0-9a-f]+$/i.test(hex) || hex.length !== 130) {
+    throw new Error('Expected an SPKI PEM block or 65 bytes of hex (uncompressed P-256 point)');
+  }
+  const raw = fromHex(hex);
+  return crypto.subtle.importKey('raw', raw.slice(), ALGORITHM, true, ['verify']);
+}
+
+export async function verifyLicenseSignature(license: Uint8Array, key: CryptoKey): Promise<boolean> {
+  return crypto.subtle.verify(
+    SIGN_ALGORITHM,
+    key,
+    licenseField(license, 'SIGNATURE').slice(),
+    license.slice(0, SIGNED_LENGTH)
+  );
+}
+
+/** Fill in the signature field of an encoded license body. */
+export async function signLicense(license: Uint8Array, key: CryptoKey): Promise<void> {
+  const signature = await crypto.subtle.sign(SIGN_ALGORITHM, key, license.slice(0, SIGNED_LENGTH));
+  licenseField(license, 'SIGNATURE').set(new Uint8Array(signature));
+}
+
+// ============================================================================
+// Simulator Key
+// ============================================================================
+
+// Development key pair used by the simulated dongle. Never provision real
+// targets with licenses signed by it.
+export const SIMULATOR_KEY_ID = 0xfe;
+
+const SIMULATOR_SIGNING_JWK: JsonWebKey = {
+  kty: 'EC',
+  crv: 'P-256',
+  x: 'R0YnQXoFYaTI3Wv-Dby1WuhwIy7ZnjgOCbJLb1v9V7Y',
+  y: 'Q2ZuW8b3GXnYOFTM8IjfHk7Pzqh-LLCXhjTHR3At53g',
+  d: 'RFRO9AQKolSMCoElfA3QXLfQTUO4x2hDBwrLDawQ2iI',
+};
+
+export const SIMULATOR_PUBLIC_KEY = [
+  '-----BEGIN PUBLIC KEY-----',
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAER0YnQXoFYaTI3Wv+Dby1WuhwIy7Z',
+  'njgOCbJLb1v9V7ZDZm5bxvcZedg4VMzwiN8eTs/OqH4ssJeGNMdHcC3neA==',
+  '-----END PUBLIC KEY-----',
+].join('\n');
+
+let simulatorKey: Promise<CryptoKey> | null = null;
+
+export function simulatorSigningKey(): Promise<CryptoKey> {
+  simulatorKey ??= crypto.subtle.importKey('jwk', SIMULATOR_SIGNING_JWK, ALGORITHM, false, ['sign']);
+  return simulatorKey;
+}
+
+// ============================================================================
+// Key Selection
+// ============================================================================
+
+/**
+ * Key shipped with the build: NEXT_PUBLIC_LICENSE_PUBLIC_KEY, or the
+ * simulator key in simulator builds. Null when neither applies.
+ */
+export function bundledPublicKey(): string | null {
+  if (process.env.NEXT_PUBLIC_LICENSE_PUBLIC_KEY) return process.env.NEXT_PUBLIC_LICENSE_PUBLIC_KEY;
+  return process.env.NEXT_PUBLIC_HID_TRANSPORT === 'simulator' ? SIMULATOR_PUBLIC_KEY : null;
+}
+
+/** A key imported by the operator wins over the bundled one. */
+export function resolvePublicKey(imported: string): string | null {
+  return imported.trim() || bundledPublicKey();
+}
+
+/** `licenseKey` for `runLicenseProcess`: false when the write check is turned off. */
+export function writeGateKey(imported: string, skipCheck: boolean): string | null | false {
+  return skipCheck ? false : resolvePublicKey(imported);
+}
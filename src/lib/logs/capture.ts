@@ -0,0 +1,272 @@
+import { LogEntry } from '@/lib/hid/types';
+import { fromHex } from '@/lib/utils';
+import { SessionMetadata } from './export';
+
+// ============================================================================
+// HID Capture (pcapng)
+// ============================================================================
+//
+// One interface per device ('Dongle', 'Target') with link type LINKTYPE_USER0.
+// Every packet is [Direction (1B): 0 = host→device, 1 = device→host]
+// [Report ID (1B)] [Payload], and carries the matching epb_flags direction.
+// The session metadata is the JSON comment of the section header.
+
+export const LINKTYPE_USER0 = 147;
+
+const BLOCK_SHB = 0x0a0d0d0a;
+const BLOCK_IDB = 0x00000001;
+const BLOCK_EPB = 0x00000006;
+const BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+
+const OPT_COMMENT = 1;
+const OPT_SHB_USERAPPL = 4;
+const OPT_IF_NAME = 2;
+const OPT_EPB_FLAGS = 2;
+
+const EPB_FLAG_INBOUND = 1;
+const EPB_FLAG_OUTBOUND = 2;
+
+export const CAPTURE_DIRECTION = { TX: 0, RX: 1 } as const;
+
+function pad4(length: number): number {
+  return (length + 3) & ~3;
+}
+
+function option(code: number, value: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + pad4(value.length));
+  const view = new DataView(out.buffer);
+  view.setUint16(0, code, true);
+  view.setUint16(2, value.length, true);
+  out.set(value, 4);
+  return out;
+}
+
+function textOption(code: number, text: string): Uint8Array {
+  return option(code, new TextEncoder().encode(text));
+}
+
+function options(list: Uint8Array[]): Uint8Array {
+  return concat([...list, new Uint8Array(4)]); // opt_endofopt
+}
+
+/** Wrap a body in `[type][total length] body [total length]`. */
+function block(type: number, body: Uint8Array): Uint8Array {
+  const total = 12 + body.length;
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, type, true);
+  view.setUint32(4, total, true);
+  out.set(body, 8);
+  view.setUint32(total - 4, total, true);
+  return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function sectionHeader(metadata: SessionMetadata): Uint8Array {
+  const fixed = new Uint8Array(16);
+  const view = new DataView(fixed.buffer);
+  view.setUint32(0, BYTE_ORDER_MAGIC, true);
+  view.setUint16(4, 1, true); // major version
+  view.setUint16(6, 0, true); // minor version
+  view.setBigInt64(8, BigInt(-1), true); // section length unknown
+  return block(BLOCK_SHB, concat([
+    fixed,
+    options([
+      textOption(OPT_SHB_USERAPPL, `${metadata.app} (${metadata.commit})`),
+      textOption(OPT_COMMENT, JSON.stringify(metadata)),
+    ]),
+  ]));
+}
+
+function interfaceDescription(name: string): Uint8Array {
+  const fixed = new Uint8Array(8);
+  const view = new DataView(fixed.buffer);
+  view.setUint16(0, LINKTYPE_USER0, true);
+  view.setUint32(4, 0, true); // no snap length limit
+  // if_tsresol is left at its default: microseconds
+  return block(BLOCK_IDB, concat([fixed, options([textOption(OPT_IF_NAME, name)])]));
+}
+
+function enhancedPacket(interfaceId: number, timestampMs: number, data: Uint8Array, inbound: boolean): Uint8Array {
+  const fixed = new Uint8Array(20);
+  const view = new DataView(fixed.buffer);
+  const micros = timestampMs * 1000;
+  view.setUint32(0, interfaceId, true);
+  view.setUint32(4, Math.floor(micros / 2 ** 32), true);
+  view.setUint32(8, micros % 2 ** 32, true);
+  view.setUint32(12, data.length, true);
+  view.setUint32(16, data.length, true);
+
+  const padded = new Uint8Array(pad4(data.length));
+  padded.set(data);
+
+  const flags = new Uint8Array(4);
+  new DataView(flags.buffer).setUint32(0, inbound ? EPB_FLAG_INBOUND : EPB_FLAG_OUTBOUND, true);
+
+  return block(BLOCK_EPB, concat([fixed, padded, options([option(OPT_EPB_FLAGS, flags)])]));
+}
+
+/** Packets from the log as a pcapng file. Entries without a packet are skipped. */
+export function logsToCapture(logs: LogEntry[], metadata: SessionMetadata): Uint8Array<ArrayBuffer> {
+  const interfaces = new Map<string, number>();
+  const blocks: Uint8Array[] = [sectionHeader(metadata)];
+
+  for (const log of logs) {
+    if (!log.packet) continue;
+
+    const device = log.device ?? 'Unknown';
+    let interfaceId = interfaces.get(device);
+    if (interfaceId === undefined) {
+      interfaceId = interfaces.size;
+      interfaces.set(device, interfaceId);
+      blocks.push(interfaceDescription(device));
+    }
+
+    const { direction, reportId, payload } = log.packet;
+    const data = new Uint8Array(2 + payload.length);
+    data[0] = direction === 'tx' ? CAPTURE_DIRECTION.TX : CAPTURE_DIRECTION.RX;
+    data[1] = reportId;
+    data.set(payload, 2);
+
+    blocks.push(enhancedPacket(interfaceId, log.timestamp, data, direction === 'rx'));
+  }
+
+  return concat(blocks);
+}
+
+// ============================================================================
+// Reading Captures
+// ============================================================================
+
+/** One report from a recorded session. */
+export interface RecordedPacket {
+  /** Client that sent or received it ('Dongle', 'Target'). */
+  device: string;
+  direction: 'tx' | 'rx';
+  reportId: number;
+  payload: Uint8Array;
+  timestamp: number;
+}
+
+export interface RecordedSession {
+  metadata: SessionMetadata | null;
+  packets: RecordedPacket[];
+}
+
+function readOptions(bytes: Uint8Array, offset: number, end: number): Map<number, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const found = new Map<number, Uint8Array>();
+  while (offset + 4 <= end) {
+    const code = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    if (code === 0) break;
+    found.set(code, bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + pad4(length);
+  }
+  return found;
+}
+
+/** Parse a pcapng capture written by `logsToCapture`. */
+export function parseCapture(bytes: Uint8Array): RecordedSession {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const interfaces: string[] = [];
+  const packets: RecordedPacket[] = [];
+  let metadata: SessionMetadata | null = null;
+
+  for (let offset = 0; offset + 12 <= bytes.length;) {
+    const type = view.getUint32(offset, true);
+    const total = view.getUint32(offset + 4, true);
+    if (total < 12 || offset + total > bytes.length) {
+      throw new Error(`Truncated capture block at offset ${offset}`);
+    }
+    const body = offset + 8;
+    const end = offset + total - 4;
+
+    switch (type) {
+      case BLOCK_SHB: {
+        if (view.getUint32(body, true) !== BYTE_ORDER_MAGIC) {
+          throw new Error('Not a little-endian pcapng capture');
+        }
+        const comment = readOptions(bytes, body + 16, end).get(OPT_COMMENT);
+        if (comment) {
+          try {
+            metadata = JSON.parse(decoder.decode(comment));
+          } catch {
+            // Foreign capture: no session metadata
+          }
+        }
+        break;
+      }
+
+      case BLOCK_IDB: {
+        if (view.getUint16(body, true) !== LINKTYPE_USER0) {
+          throw new Error(`Interface ${interfaces.length} is not an HID session (link type ${view.getUint16(body, true)})`);
+        }
+        const name = readOptions(bytes, body + 8, end).get(OPT_IF_NAME);
+        interfaces.push(name ? decoder.decode(name) : `Interface ${interfaces.length}`);
+        break;
+      }
+
+      case BLOCK_EPB: {
+        const interfaceId = view.getUint32(body, true);
+        const micros = view.getUint32(body + 4, true) * 2 ** 32 + view.getUint32(body + 8, true);
+        const length = view.getUint32(body + 12, true);
+        const data = bytes.subarray(body + 20, body + 20 + length);
+        if (interfaceId >= interfaces.length || data.length < 2) {
+          throw new Error(`Malformed packet block at offset ${offset}`);
+        }
+        packets.push({
+          device: interfaces[interfaceId],
+          direction: data[0] === CAPTURE_DIRECTION.TX ? 'tx' : 'rx',
+          reportId: data[1],
+          payload: data.slice(2),
+          timestamp: Math.floor(micros / 1000),
+        });
+        break;
+      }
+    }
+
+    offset += total;
+  }
+
+  return { metadata, packets };
+}
+
+/** Read a session from a JSON log export, keeping only the packets. */
+export function parseJSONSession(text: string): RecordedSession {
+  const parsed = JSON.parse(text) as {
+    metadata?: SessionMetadata;
+    entries?: { timestamp: string; device: string | null; packet: { direction: 'tx' | 'rx'; reportId: number; payload: string } | null }[];
+  };
+  if (!Array.isArray(parsed.entries)) {
+    throw new Error('Not a session log export');
+  }
+
+  const packets = parsed.entries.flatMap(entry => entry.packet
+    ? [{
+        device: entry.device ?? 'Unknown',
+        direction: entry.packet.direction,
+        reportId: entry.packet.reportId,
+        payload: fromHex(entry.packet.payload),
+        timestamp: Date.parse(entry.timestamp),
+      }]
+    : []);
+
+  return { metadata: parsed.metadata ?? null, packets };
+}
+
+/** Accepts either export format: pcapng capture or JSON log. */
+export function parseSession(bytes: Uint8Array): RecordedSession {
+  const isCapture = bytes.length >= 4 && new DataView(bytes.buffer, bytes.byteOffset).getUint32(0, true) === BLOCK_SHB;
+  return isCapture ? parseCapture(bytes) : parseJSONSession(new TextDecoder().decode(bytes));
+}
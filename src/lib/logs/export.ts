@@ -0,0 +1,100 @@
+import { LogEntry } from '@/lib/hid/types';
+import { toHex } from '@/lib/utils';
+
+// ============================================================================
+// Session Metadata
+// ============================================================================
+
+export interface SessionDevice {
+  label: string;
+  productName: string | null;
+  serialNumber: string | null;
+  /** Last-read credit counter; dongles only. */
+  counter?: number | null;
+}
+
+export interface SessionMetadata {
+  app: string;
+  /** Build commit, from NEXT_PUBLIC_COMMIT_HASH. */
+  commit: string;
+  exportedAt: string;
+  transport: string;
+  dongles: SessionDevice[];
+  targets: SessionDevice[];
+  /** Operator signed in at export; missing from exports made before sign-in existed. */
+  operator?: string | null;
+}
+
+export function sessionMetadata(
+  transport: string,
+  dongles: SessionDevice[],
+  targets: SessionDevice[],
+  operator: string | null = null
+): SessionMetadata {
+  return {
+    app: 'ORO License Tool',
+    commit: process.env.NEXT_PUBLIC_COMMIT_HASH ?? 'unknown',
+    exportedAt: new Date().toISOString(),
+    transport,
+    dongles,
+    targets,
+    operator,
+  };
+}
+
+/** Base name for export files, e.g. `oro-session-2024-05-01T10-22-03`. */
+export function exportFileName(metadata: SessionMetadata): string {
+  return `oro-session-${metadata.exportedAt.slice(0, 19).replace(/:/g, '-')}`;
+}
+
+// ============================================================================
+// JSON / CSV
+// ============================================================================
+
+export function logsToJSON(logs: LogEntry[], metadata: SessionMetadata): string {
+  const entries = logs.map(log => ({
+    timestamp: new Date(log.timestamp).toISOString(),
+    type: log.type,
+    device: log.device ?? null,
+    message: log.message,
+    data: log.data ?? null,
+    packet: log.packet
+      ? { direction: log.packet.direction, reportId: log.packet.reportId, payload: toHex(log.packet.payload) }
+      : null,
+  }));
+
+  return JSON.stringify({ metadata, entries }, null, 2);
+}
+
+const CSV_COLUMNS = ['timestamp', 'type', 'device', 'direction', 'report_id', 'length', 'message', 'payload'];
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per entry; metadata goes in leading `#` comment lines. */
+export function logsToCSV(logs: LogEntry[], metadata: SessionMetadata): string {
+  const header = [
+    `# app: ${metadata.app}`,
+    `# commit: ${metadata.commit}`,
+    `# exported: ${metadata.exportedAt}`,
+    `# transport: ${metadata.transport}`,
+    `# operator: ${metadata.operator ?? 'unknown'}`,
+    ...metadata.dongles.map(d => `# dongle: ${d.label} (${d.productName ?? 'unknown'}) counter=${d.counter ?? 'unknown'}`),
+    ...metadata.targets.map(t => `# target: ${t.label} (${t.productName ?? 'unknown'})`),
+  ];
+
+  const rows = logs.map(log => [
+    new Date(log.timestamp).toISOString(),
+    log.type,
+    log.device,
+    log.packet?.direction,
+    log.packet ? `0x${log.packet.reportId.toString(16).padStart(2, '0')}` : null,
+    log.packet?.payload.length,
+    log.message,
+    log.packet ? toHex(log.packet.payload) : log.data?.replace(/\s/g, ''),
+  ].map(csvField).join(','));
+
+  return [...header, CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,65 @@
+import { LogEntry, LogType } from '@/lib/hid/types';
+import { toHex } from '@/lib/utils';
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+/** Entries kept in memory; older ones are dropped first. A batch of ~100 units logs a few thousand. */
+export const LOG_RETENTION_LIMIT = 5000;
+
+export function appendLog(logs: LogEntry[], entry: LogEntry, limit = LOG_RETENTION_LIMIT): LogEntry[] {
+  const next = logs.length >= limit ? logs.slice(logs.length - limit + 1) : logs.slice();
+  next.push(entry);
+  return next;
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+export interface LogFilter {
+  /** Source client ('Dongle', 'Target'); null for all. */
+  device: string | null;
+  type: LogType | null;
+  /** Only packets with this report ID; null for all entries. */
+  reportId: number | null;
+  /** Case-insensitive match on message, data and packet bytes (hex). */
+  search: string;
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { device: null, type: null, reportId: null, search: '' };
+
+/** Parse a report ID typed as `81`, `0x81` or `0X81`; null when empty or invalid. */
+export function parseReportId(text: string): number | null {
+  const clean = text.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-f]{1,2}$/i.test(clean)) return null;
+  return parseInt(clean, 16);
+}
+
+export function matchesLogFilter(log: LogEntry, filter: LogFilter): boolean {
+  if (filter.device !== null && log.device !== filter.device) return false;
+  if (filter.type !== null && log.type !== filter.type) return false;
+  if (filter.reportId !== null && log.packet?.reportId !== filter.reportId) return false;
+
+  const search = filter.search.trim().toLowerCase();
+  if (!search) return true;
+
+  const haystack = [
+    log.message,
+    log.device ?? '',
+    log.data?.replace(/\s/g, '') ?? '',
+    log.packet ? toHex(log.packet.payload) : '',
+  ].join('\n').toLowerCase();
+  // Hex searches may be typed with spaces between bytes
+  return haystack.includes(search) || haystack.includes(search.replace(/\s/g, ''));
+}
+
+/** Devices that appear in the log, in first-seen order. */
+export function logDevices(logs: LogEntry[]): string[] {
+  const devices = new Set<string>();
+  for (const log of logs) {
+    if (log.device) devices.add(log.device);
+  }
+  return [...devices];
+}
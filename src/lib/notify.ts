@@ -0,0 +1,18 @@
+import { toast } from 'sonner';
+import { describeError } from '@/lib/hid/errors';
+import { CreditAnomalyKind, describeCreditAnomaly } from '@/lib/ledger/credits';
+
+/** Error toast with the operator remediation and stable error code, when known. */
+export function toastError(context: string, err: unknown) {
+  const { code, title, hint } = describeError(err);
+  toast.error(`${context}: ${title}`, {
+    description: hint ? `${hint}${code ? ` [${code}]` : ''}` : undefined,
+  });
+}
+
+/** Warning toast for a generation that did not cost exactly one dongle credit. */
+export function toastCreditAnomaly(kind: CreditAnomalyKind, before: number, after: number) {
+  toast.warning('Dongle credit anomaly', {
+    description: describeCreditAnomaly({ kind, expected: before, actual: after }),
+  });
+}
@@ -0,0 +1,208 @@
+import { STORES, withStore } from '@/lib/storage/db';
+import { fromHex, toHex } from '@/lib/utils';
+
+// ============================================================================
+// Roles
+// ============================================================================
+//
+// Each role includes the ones below it:
+//   operator  automated licensing (auto-license, station), history, credits
+//   engineer  + manual flow and raw reports, bulk generation, inspector, replay
+//   admin     + device profiles, license key, ledger deletion, operator accounts,
+//             storage passphrase and backups
+
+export type OperatorRole = 'operator' | 'engineer' | 'admin';
+
+export const OPERATOR_ROLES: OperatorRole[] = ['operator', 'engineer', 'admin'];
+
+const ROLE_RANK: Record<OperatorRole, number> = { operator: 0, engineer: 1, admin: 2 };
+
+export function hasRole(role: OperatorRole, required: OperatorRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+/** A local operator. Only a salted PBKDF2 hash of the PIN is stored. */
+export interface OperatorAccount {
+  id: string;
+  name: string;
+  /** Lowercase name; unique, used to sign in. */
+  login: string;
+  role: OperatorRole;
+  salt: string;
+  pinHash: string;
+  /** Stored per account so the work factor can be raised without a reset. */
+  iterations: number;
+  createdAt: number;
+  /** Wrong PINs in a row; kept with the account so a reload does not reset it. */
+  failedPins?: number;
+  /** Epoch ms until which sign-in is refused, 0 when not held back. */
+  lockedUntil?: number;
+}
+
+const PIN_ITERATIONS = 310_000;
+
+/** Throws with an operator-facing message when the PIN is unacceptable. */
+export function validatePin(pin: string) {
+  if (!/^\d{4,12}$/.test(pin)) {
+    throw new Error('The PIN must be 4 to 12 digits');
+  }
+}
+
+async function hashPin(pin: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as Uint8Array<ArrayBuffer>, iterations },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+async function withPin(account: Omit<OperatorAccount, 'salt' | 'pinHash' | 'iterations'>, pin: string): Promise<OperatorAccount> {
+  validatePin(pin);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    ...account,
+    salt: toHex(salt),
+    pinHash: await hashPin(pin, salt, PIN_ITERATIONS),
+    iterations: PIN_ITERATIONS,
+  };
+}
+
+export async function getOperator(id: string): Promise<OperatorAccount | null> {
+  const account = await withStore<OperatorAccount | undefined>(STORES.OPERATORS, 'readonly', store => store.get(id));
+  return account ?? null;
+}
+
+/** Accounts sorted by name. */
+export async function listOperators(): Promise<OperatorAccount[]> {
+  const accounts = await withStore<OperatorAccount[]>(STORES.OPERATORS, 'readonly', store => store.getAll());
+  return accounts.sort((a, b) => a.login.localeCompare(b.login));
+}
+
+export async function createOperator(name: string, role: OperatorRole, pin: string): Promise<OperatorAccount> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Enter a name');
+  }
+  const existing = await withStore<OperatorAccount | undefined>(STORES.OPERATORS, 'readonly', store =>
+    store.index('login').get(trimmed.toLowerCase())
+  );
+  if (existing) {
+    throw new Error(`An operator named "${existing.name}" already exists`);
+  }
+
+  const account = await withPin({
+    id: crypto.randomUUID(),
+    name: trimmed,
+    login: trimmed.toLowerCase(),
+    role,
+    createdAt: Date.now(),
+  }, pin);
+  await withStore(STORES.OPERATORS, 'readwrite', store => store.put(account));
+  return account;
+}
+
+/** Also lifts a lockout from wrong PINs. */
+export async function changePin(account: OperatorAccount, pin: string): Promise<void> {
+  const updated = await withPin({ ...account, failedPins: 0, lockedUntil: 0 }, pin);
+  await withStore(STORES.OPERATORS, 'readwrite', store => store.put(updated));
+}
+
+/** The last administrator cannot be deleted: nobody could manage accounts any more. */
+export async function deleteOperator(account: OperatorAccount): Promise<void> {
+  const accounts = await listOperators();
+  if (account.role === 'admin' && accounts.filter(a => a.role === 'admin').length <= 1) {
+    throw new Error('Cannot delete the last administrator');
+  }
+  await withStore(STORES.OPERATORS, 'readwrite', store => store.delete(account.id));
+}
+
+// ============================================================================
+// Sign-in
+// ============================================================================
+
+/** Wrong PINs in a row before a name is held back. */
+const MAX_FAILURES = 5;
+const LOCKOUT_MS = 30_000;
+
+// Names without an account are held back too, so a lockout does not reveal
+// which names exist; there is no record to keep their count in
+const unknownFailures = new Map<string, { count: number; until: number }>();
+
+function lockoutError(until: number): Error {
+  return new Error(`Too many wrong PINs. Try again in ${Math.ceil((until - Date.now()) / 1000)} s`);
+}
+
+interface PinAttempt {
+  /** The account as stored afterwards; null when it was deleted meanwhile. */
+  account: OperatorAccount | null;
+  /** Set when another attempt locked the account first: this one was not counted. */
+  heldUntil: number;
+}
+
+/**
+ * Count a sign-in attempt against the account in one readwrite transaction,
+ * so concurrent attempts (two tabs, a double submit) cannot overwrite each
+ * other's count.
+ */
+async function recordPinAttempt(id: string, correct: boolean): Promise<PinAttempt> {
+  const attempt: PinAttempt = { account: null, heldUntil: 0 };
+  await withStore(STORES.OPERATORS, 'readwrite', store => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const current = request.result as OperatorAccount | undefined;
+      if (!current) return;
+      attempt.account = current;
+      if ((current.lockedUntil ?? 0) > Date.now()) {
+        attempt.heldUntil = current.lockedUntil!;
+        return;
+      }
+
+      const failedPins = correct ? 0 : (current.failedPins ?? 0) + 1;
+      if (failedPins === 0 && !current.failedPins) return;
+      attempt.account = { ...current, failedPins, lockedUntil: failedPins >= MAX_FAILURES ? Date.now() + LOCKOUT_MS : 0 };
+      store.put(attempt.account);
+    };
+  });
+  return attempt;
+}
+
+/**
+ * The account when `pin` is right, null otherwise. After repeated wrong
+ * PINs for a name, attempts are refused for a while.
+ */
+export async function verifyOperator(name: string, pin: string): Promise<OperatorAccount | null> {
+  const login = name.trim().toLowerCase();
+  const account = await withStore<OperatorAccount | undefined>(STORES.OPERATORS, 'readonly', store =>
+    store.index('login').get(login)
+  );
+  const until = account ? account.lockedUntil ?? 0 : unknownFailures.get(login)?.until ?? 0;
+  if (until > Date.now()) {
+    throw lockoutError(until);
+  }
+
+  const hash = account ? await hashPin(pin, fromHex(account.salt), account.iterations) : null;
+
+  // Compare without an early exit
+  let diff = hash && account ? hash.length ^ account.pinHash.length : 1;
+  for (let i = 0; hash && account && i < hash.length; i++) {
+    diff |= hash.charCodeAt(i) ^ account.pinHash.charCodeAt(i);
+  }
+
+  if (account) {
+    const attempt = await recordPinAttempt(account.id, diff === 0);
+    if (attempt.heldUntil) {
+      throw lockoutError(attempt.heldUntil);
+    }
+    return diff === 0 ? attempt.account : null;
+  }
+
+  const count = (unknownFailures.get(login)?.count ?? 0) + 1;
+  unknownFailures.set(login, { count, until: count >= MAX_FAILURES ? Date.now() + LOCKOUT_MS : 0 });
+  return null;
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { OperatorAccount, OperatorRole, getOperator, hasRole } from './accounts';
+
+// ============================================================================
+// Operator Session (persisted in sessionStorage)
+// ============================================================================
+//
+// Survives reloads and navigation within the tab, not closing it. A session
+// idle for longer than the configured timeout is locked: the page stays
+// mounted (a running batch goes on) but needs the PIN again.
+//
+// sessionStorage is writable from the page, so a stored session only names
+// the operator: `restoreSession` looks the account up again and takes the
+// name and role from there.
+
+export interface OperatorSession {
+  operatorId: string;
+  name: string;
+  role: OperatorRole;
+  signedInAt: number;
+  lastActivity: number;
+  locked: boolean;
+  /** Write licenses without the offline check; admins only, until sign-out. */
+  skipLicenseCheck?: boolean;
+}
+
+const STORAGE_KEY = 'oro-license-tool.session';
+
+// undefined until `restoreSession` has run
+let cachedSession: OperatorSession | null | undefined;
+const listeners = new Set<() => void>();
+
+function loadSession(): OperatorSession | null {
+  return cachedSession ?? null;
+}
+
+function readStoredSession(): OperatorSession | null {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: OperatorSession | null) {
+  cachedSession = session;
+  if (session) sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  else sessionStorage.removeItem(STORAGE_KEY);
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Resume the session stored in this tab, if its operator still exists.
+ * Until this has run nobody counts as signed in.
+ */
+export async function restoreSession(): Promise<void> {
+  if (cachedSession !== undefined || typeof sessionStorage === 'undefined') return;
+
+  const stored = readStoredSession();
+  let account: OperatorAccount | null = null;
+  try {
+    account = stored && typeof stored.operatorId === 'string' ? await getOperator(stored.operatorId) : null;
+  } finally {
+    // Another call may have signed in meanwhile
+    if (cachedSession === undefined) {
+      saveSession(stored && account ? { ...stored, name: account.name, role: account.role } : null);
+    }
+  }
+}
+
+export function signIn(account: OperatorAccount) {
+  const now = Date.now();
+  saveSession({ operatorId: account.id, name: account.name, role: account.role, signedInAt: now, lastActivity: now, locked: false });
+}
+
+export function signOut() {
+  saveSession(null);
+}
+
+export function lockSession() {
+  const session = loadSession();
+  if (session && !session.locked) saveSession({ ...session, locked: true });
+}
+
+/** After the PIN was re-entered on the lock screen. */
+export function unlockSession() {
+  const session = loadSession();
+  if (session) saveSession({ ...session, locked: false, lastActivity: Date.now() });
+}
+
+/** Only takes effect for an administrator; see `licenseCheckSkipped`. */
+export function setSkipLicenseCheck(skip: boolean) {
+  const session = loadSession();
+  if (session && hasRole(session.role, 'admin')) saveSession({ ...session, skipLicenseCheck: skip });
+}
+
+/**
+ * Whether licenses are written without the offline check. Read when the run
+ * or write starts, so a role changed since the toggle counts.
+ */
+export function licenseCheckSkipped(): boolean {
+  const session = loadSession();
+  return !!session?.skipLicenseCheck && hasRole(session.role, 'admin');
+}
+
+/** Record operator activity; kept out of sessionStorage more than once every few seconds. */
+export function touchSession() {
+  const session = loadSession();
+  if (!session || session.locked) return;
+  const now = Date.now();
+  if (now - session.lastActivity < 5000) return;
+  cachedSession = { ...session, lastActivity: now };
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(cachedSession));
+}
+
+/** Lock the session when idle longer than `timeoutMs`. */
+export function lockIfIdle(timeoutMs: number) {
+  const session = loadSession();
+  if (session && !session.locked && Date.now() - session.lastActivity > timeoutMs) {
+    lockSession();
+  }
+}
+
+/** Who is signed in, for stamping records; null outside the browser or when nobody is. */
+export function currentOperator(): OperatorSession | null {
+  return loadSession();
+}
+
+/** The signed-in operator; the server render always sees nobody. */
+export function useOperatorSession(): OperatorSession | null {
+  return useSyncExternalStore(subscribe, loadSession, () => null);
+}
+
+/** Whether the signed-in operator holds `role` (or a higher one). */
+export function useHasRole(role: OperatorRole): boolean {
+  const session = useOperatorSession();
+  return session !== null && hasRole(session.role, role);
+}
@@ -0,0 +1,53 @@
+import { UUIDDecision } from './license-process';
+import { findIssuedLicense } from '@/lib/ledger/ledger';
+import { toHex, fromHex } from '@/lib/utils';
+
+// ============================================================================
+// Batch Provisioning Types
+// ============================================================================
+
+export type BatchUnitStatus = 'licensed' | 'failed' | 'skipped';
+
+export interface BatchUnitResult {
+  index: number;
+  uuidHex: string | null;
+  status: BatchUnitStatus;
+  counterAfter: number | null;
+  reusedLicense: boolean;
+  error: string | null;
+  timestamp: number;
+}
+
+export type BatchPhase = 'idle' | 'waiting-target' | 'processing' | 'waiting-removal' | 'stopped';
+
+export interface BatchTally {
+  licensed: number;
+  failed: number;
+  skipped: number;
+}
+
+export function tallyBatch(units: BatchUnitResult[]): BatchTally {
+  return units.reduce<BatchTally>((tally, unit) => {
+    tally[unit.status]++;
+    return tally;
+  }, { licensed: 0, failed: 0, skipped: 0 });
+}
+
+/**
+ * Duplicate-UUID policy when nobody is there to ask: skip units already
+ * licensed this session, re-write a previously issued license otherwise.
+ */
+export async function decideUnattended(
+  uuid: Uint8Array,
+  licensedThisSession: Set<string>,
+  forceRegenerate: boolean
+): Promise<UUIDDecision> {
+  if (licensedThisSession.has(toHex(uuid))) {
+    return { action: 'skip', reason: 'Already licensed in this session' };
+  }
+  if (!forceRegenerate) {
+    const issued = await findIssuedLicense(uuid);
+    if (issued?.license) return { action: 'reuse', license: fromHex(issued.license) };
+  }
+  return { action: 'generate' };
+}
@@ -0,0 +1,361 @@
+import { DongleClient } from '@/lib/hid/hid-client';
+import { CounterExhaustedError } from '@/lib/hid/errors';
+import { CreditAnomalyKind } from '@/lib/ledger/credits';
+import { auditLicense, findIssuedLicense, recordLicenseAttempt } from '@/lib/ledger/ledger';
+import { STORES, withStore } from '@/lib/storage/db';
+import { getSealed, putSealed } from '@/lib/storage/vault';
+import { LicenseProcessCallbacks, emptyProcessData, generateOffline, isRetryable } from './license-process';
+import { fromHex, toHex } from '@/lib/utils';
+
+// ============================================================================
+// UUID Lists
+// ============================================================================
+//
+// Contract manufacturers send the UUIDs of units before the units arrive.
+// A list is imported as CSV (one UUID per line, optionally under a "uuid"
+// column header) or JSON (an array of UUID strings or `{ uuid }` objects,
+// bare or as `{ uuids: [...] }`).
+
+export type UUIDListIssueReason = 'invalid' | 'duplicate';
+
+export interface UUIDListIssue {
+  /** 1-based CSV line or JSON array entry. */
+  position: number;
+  value: string;
+  reason: UUIDListIssueReason;
+  message: string;
+}
+
+export interface UUIDList {
+  /** Valid, distinct UUIDs as lowercase hex, in file order. */
+  uuids: string[];
+  issues: UUIDListIssue[];
+}
+
+function cleanCell(cell: string): string {
+  return cell.trim().replace(/^"(.*)"$/, '$1').replace(/\s/g, '').replace(/^0x/i, '');
+}
+
+function csvValues(text: string): [number, string][] {
+  const rows = text.split(/\r?\n/)
+    .map((line, i): [number, string[]] => [i + 1, line.split(/[,;\t]/).map(cleanCell)])
+    .filter(([, cells]) => cells.some(Boolean));
+  if (rows.length === 0) return [];
+
+  const header = rows[0][1].findIndex(cell => cell.toLowerCase() === 'uuid');
+  const column = Math.max(header, 0);
+  return rows.slice(header >= 0 ? 1 : 0).map(([line, cells]) => [line, cells[column] ?? '']);
+}
+
+function jsonValues(text: string): [number, string][] {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON document');
+  }
+
+  const list = Array.isArray(value) ? value : (value as { uuids?: unknown } | null)?.uuids;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected an array of UUIDs or an object with a "uuids" array');
+  }
+
+  return list.map((entry, i): [number, string] => {
+    const uuid = typeof entry === 'object' && entry !== null ? (entry as { uuid?: unknown }).uuid : entry;
+    return [i + 1, typeof uuid === 'string' ? cleanCell(uuid) : JSON.stringify(entry)];
+  });
+}
+
+/**
+ * Parse and validate a UUID list. Malformed and repeated UUIDs are reported
+ * as issues and left out; only an unreadable JSON document throws.
+ */
+export function parseUUIDList(text: string, uuidLength: number): UUIDList {
+  const trimmed = text.trim();
+  const values = trimmed.startsWith('[') || trimmed.startsWith('{') ? jsonValues(trimmed) : csvValues(text);
+  const hexLength = uuidLength * 2;
+
+  const seen = new Map<string, number>();
+  const result: UUIDList = { uuids: [], issues: [] };
+  for (const [position, value] of values) {
+    if (!/^[0-9a-f]*$/i.test(value)) {
+      result.issues.push({ position, value, reason: 'invalid', message: 'Not hex' });
+      continue;
+    }
+    if (value.length !== hexLength) {
+      result.issues.push({ position, value, reason: 'invalid', message: `Expected ${hexLength} hex characters, got ${value.length}` });
+      continue;
+    }
+
+    const uuid = value.toLowerCase();
+    const first = seen.get(uuid);
+    if (first !== undefined) {
+      result.issues.push({ position, value, reason: 'duplicate', message: `Same UUID as #${first}` });
+      continue;
+    }
+    seen.set(uuid, position);
+    result.uuids.push(uuid);
+  }
+  return result;
+}
+
+// ============================================================================
+// Bulk Jobs
+// ============================================================================
+//
+// A job and its items live in IndexedDB (UUIDs and licenses sealed by the
+// vault) and every item is saved as soon as its license comes back, so
+// closing the tab mid-run loses at most the license in flight.
+
+/**
+ * 'generating' is saved before the transfer starts; an item still in that
+ * state when the job is loaded again comes back 'interrupted' (see
+ * `loadBulkItems`). The dongle may already have spent a credit on it, so it
+ * is only generated again on request (see `retryInterruptedItems`).
+ */
+export type BulkItemStatus = 'pending' | 'generating' | 'generated' | 'reused' | 'failed' | 'interrupted';
+
+export interface BulkJob {
+  id: string;
+  /** Usually the imported file name. */
+  name: string;
+  createdAt: number;
+  profileId: string;
+  total: number;
+}
+
+export interface BulkItem {
+  /** `${jobId}:${index}` */
+  id: string;
+  jobId: string;
+  index: number;
+  uuid: string;
+  status: BulkItemStatus;
+  license: string | null;
+  dongle: string | null;
+  counterBefore: number | null;
+  counterAfter: number | null;
+  creditAnomaly: CreditAnomalyKind | null;
+  error: string | null;
+  timestamp: number | null;
+}
+
+export interface BulkTally {
+  pending: number;
+  generated: number;
+  reused: number;
+  failed: number;
+  interrupted: number;
+}
+
+const INTERRUPTED_MESSAGE = 'Interrupted during generation; the dongle may have spent a credit';
+
+export function tallyBulk(items: BulkItem[]): BulkTally {
+  return items.reduce<BulkTally>((tally, item) => {
+    tally[item.status === 'generating' ? 'pending' : item.status]++;
+    return tally;
+  }, { pending: 0, generated: 0, reused: 0, failed: 0, interrupted: 0 });
+}
+
+/**
+ * Create a job for a parsed list. With `reuseIssued`, UUIDs the ledger
+ * already holds a license for take that license instead of a dongle credit.
+ */
+export async function createBulkJob(
+  name: string,
+  uuids: string[],
+  profileId: string,
+  reuseIssued: boolean
+): Promise<{ job: BulkJob; items: BulkItem[] }> {
+  const job: BulkJob = { id: crypto.randomUUID(), name, createdAt: Date.now(), profileId, total: uuids.length };
+
+  const items: BulkItem[] = [];
+  for (const [index, uuid] of uuids.entries()) {
+    const issued = reuseIssued ? await findIssuedLicense(uuid) : null;
+    items.push({
+      id: `${job.id}:${index}`,
+      jobId: job.id,
+      index,
+      uuid,
+      status: issued?.license ? 'reused' : 'pending',
+      license: issued?.license ?? null,
+      dongle: issued?.dongle ?? null,
+      counterBefore: null,
+      counterAfter: null,
+      creditAnomaly: null,
+      error: null,
+      timestamp: issued ? issued.timestamp : null,
+    });
+  }
+
+  await putSealed(STORES.BULK_ITEMS, items);
+  await withStore(STORES.BULK_JOBS, 'readwrite', store => store.put(job));
+  return { job, items };
+}
+
+/** Jobs, newest first. */
+export async function listBulkJobs(): Promise<BulkJob[]> {
+  const jobs = await withStore<BulkJob[]>(STORES.BULK_JOBS, 'readonly', store => store.getAll());
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** A job's items in list order; interrupted generations come back as 'interrupted'. */
+export async function loadBulkItems(jobId: string): Promise<BulkItem[]> {
+  const items = await getSealed<BulkItem>(STORES.BULK_ITEMS, store =>
+    store.index('jobId').getAll(jobId)
+  );
+  return items
+    .sort((a, b) => a.index - b.index)
+    .map(item => item.status === 'generating' ? { ...item, status: 'interrupted', error: INTERRUPTED_MESSAGE } : item);
+}
+
+export async function saveBulkItem(item: BulkItem): Promise<void> {
+  await putSealed(STORES.BULK_ITEMS, [item]);
+}
+
+export async function deleteBulkJob(jobId: string): Promise<void> {
+  const keys = await withStore<IDBValidKey[]>(STORES.BULK_ITEMS, 'readonly', store =>
+    store.index('jobId').getAllKeys(jobId)
+  );
+  await withStore(STORES.BULK_ITEMS, 'readwrite', store => {
+    keys.forEach(key => store.delete(key));
+  });
+  await withStore(STORES.BULK_JOBS, 'readwrite', store => store.delete(jobId));
+}
+
+async function resetItems(items: BulkItem[], status: BulkItemStatus): Promise<BulkItem[]> {
+  const reset = items.map(item => item.status === status ? { ...item, status: 'pending' as const, error: null } : item);
+  await putSealed(STORES.BULK_ITEMS, reset.filter((item, i) => item !== items[i]));
+  return reset;
+}
+
+/** Failed items back to pending so the next run picks them up. Interrupted ones are left alone. */
+export function retryFailedItems(items: BulkItem[]): Promise<BulkItem[]> {
+  return resetItems(items, 'failed');
+}
+
+/**
+ * Interrupted items back to pending. Each may already have cost a credit
+ * whose license never arrived: only call this once the operator agreed.
+ */
+export function retryInterruptedItems(items: BulkItem[]): Promise<BulkItem[]> {
+  return resetItems(items, 'interrupted');
+}
+
+// ============================================================================
+// Bulk Generation
+// ============================================================================
+
+export type BulkRunOutcome = 'complete' | 'stopped' | 'exhausted' | 'failed';
+
+export interface BulkRunCallbacks extends Pick<LicenseProcessCallbacks, 'onCreditAnomaly'> {
+  /** Dongle to draw from; `exhausted` is one that just turned out empty. */
+  selectDongle: (exhausted?: DongleClient) => DongleClient | null;
+  /** Called with every item saved, including the 'generating' mark. */
+  onItem: (item: BulkItem) => void;
+  /** Checked between items; the license in flight always completes. */
+  shouldStop: () => boolean;
+}
+
+/**
+ * Generate licenses for the pending items one at a time, saving each item
+ * and recording it in the ledger and audit log as it completes. Transient
+ * transfer errors fail the item and move on; anything else (dongle gone, out
+ * of credits, a ledger or audit write that failed) ends the run with the
+ * remaining items still pending.
+ */
+export async function runBulkJob(
+  items: BulkItem[],
+  { selectDongle, onItem, shouldStop, onCreditAnomaly }: BulkRunCallbacks
+): Promise<{ outcome: BulkRunOutcome; error: unknown }> {
+  const save = async (item: BulkItem) => {
+    await saveBulkItem(item);
+    onItem(item);
+  };
+
+  for (const pending of items.filter(item => item.status === 'pending')) {
+    if (shouldStop()) {
+      return { outcome: 'stopped', error: null };
+    }
+    const dongle = selectDongle();
+    if (!dongle) {
+      return { outcome: 'exhausted', error: new CounterExhaustedError(0) };
+    }
+
+    await save({ ...pending, status: 'generating' });
+    const data = emptyProcessData();
+    try {
+      await generateOffline(dongle, fromHex(pending.uuid), data, { nextDongle: selectDongle, onCreditAnomaly });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const done = {
+        ...pending,
+        dongle: data.dongle,
+        counterBefore: data.counterBefore,
+        timestamp: Date.now(),
+      };
+
+      // Nothing was sent to an empty dongle: the item simply stays pending
+      if (e instanceof CounterExhaustedError) {
+        await save(done);
+        return { outcome: 'exhausted', error: e };
+      }
+
+      await save({ ...done, status: 'failed', error: message });
+      try {
+        await recordLicenseAttempt('bulk', data, 'failed', message);
+      } catch (recordError) {
+        return { outcome: 'failed', error: recordError };
+      }
+      if (!isRetryable(e)) {
+        return { outcome: 'failed', error: e };
+      }
+      continue;
+    }
+
+    await save({
+      ...pending,
+      status: 'generated',
+      license: toHex(data.license!),
+      dongle: data.dongle,
+      counterBefore: data.counterBefore,
+      counterAfter: data.counterAfter,
+      creditAnomaly: data.creditAnomaly,
+      error: null,
+      timestamp: Date.now(),
+    });
+    try {
+      await recordLicenseAttempt('bulk', data, 'generated');
+      await auditLicense('bulk', data);
+    } catch (e) {
+      // The item keeps its license, and a later write retries the audit record; stop here
+      return { outcome: 'failed', error: e };
+    }
+  }
+
+  return { outcome: 'complete', error: null };
+}
+
+// ============================================================================
+// Manifest
+// ============================================================================
+
+/** Items with a license, ready for the manifest. */
+function licensed(items: BulkItem[]): BulkItem[] {
+  return items.filter(item => item.license !== null && (item.status === 'generated' || item.status === 'reused'));
+}
+
+export function bulkManifestJSON(job: BulkJob, items: BulkItem[]): string {
+  const entries = licensed(items);
+  return JSON.stringify({
+    job: job.name,
+    profile: job.profileId,
+    exportedAt: new Date().toISOString(),
+    count: entries.length,
+    licenses: entries.map(item => ({ uuid: item.uuid, license: item.license })),
+  }, null, 2);
+}
+
+export function bulkManifestCSV(items: BulkItem[]): string {
+  return ['uuid,license', ...licensed(items).map(item => `${item.uuid},${item.license}`)].join('\n') + '\n';
+}
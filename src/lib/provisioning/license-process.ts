@@ -0,0 +1,422 @@
+import { DongleClient, TargetDeviceClient } from '@/lib/hid/hid-client';
+import { LicenseVerifyMode } from '@/lib/hid/types';
+import { CounterExhaustedError, HIDError, HIDErrorCode, OperationCancelledError } from '@/lib/hid/errors';
+import { assertLicenseAccepted } from '@/lib/license/inspect';
+import { bundledPublicKey } from '@/lib/license/signature';
+import { CreditAnomalyKind, checkGeneration } from '@/lib/ledger/credits';
+
+// ============================================================================
+// License Process
+// ============================================================================
+
+export type ProcessStep =
+  | 'idle' | 'get-uuid' | 'get-counter' | 'generate-license' | 'check-license' | 'write-license' | 'verify-license'
+  | 'complete' | 'verify-failed' | 'error';
+
+/** Steps the state machine executes. Verification runs inside 'write-license'. */
+export type ExecutableStep = 'get-uuid' | 'get-counter' | 'generate-license' | 'check-license' | 'write-license';
+
+export const STEP_PROGRESS: Record<ProcessStep, number> = {
+  'idle': 0,
+  'get-uuid': 25,
+  'get-counter': 40,
+  'generate-license': 60,
+  'check-license': 70,
+  'write-license': 80,
+  'verify-license': 90,
+  'complete': 100,
+  'verify-failed': 90,
+  'error': 0,
+};
+
+export interface LicenseProcessData {
+  uuid: Uint8Array | null;
+  license: Uint8Array | null;
+  counterBefore: number | null;
+  counterAfter: number | null;
+  /** Serial or product name of the dongle the counters were read from. */
+  dongle: string | null;
+  /** Set when the generation did not cost exactly one credit. */
+  creditAnomaly: CreditAnomalyKind | null;
+  /** Set when `checkUUID` decided not to license this unit. */
+  skipReason: string | null;
+  /** True when a previously issued license was written instead of generating one. */
+  reusedLicense: boolean;
+  /** Step that gave up on the last run, if any. */
+  failedStep: ExecutableStep | null;
+}
+
+export type UUIDDecision =
+  | { action: 'generate' }
+  | { action: 'reuse'; license: Uint8Array }
+  | { action: 'skip'; reason: string };
+
+// ============================================================================
+// Retry Policies
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further retry. */
+  baseDelayMs: number;
+  /** A retry may have side effects (spending a credit): ask the operator first. */
+  requiresConfirmation: boolean;
+}
+
+export const RETRY_POLICIES: Record<ExecutableStep, RetryPolicy> = {
+  'get-uuid': { maxAttempts: 3, baseDelayMs: 250, requiresConfirmation: false },
+  'get-counter': { maxAttempts: 3, baseDelayMs: 250, requiresConfirmation: false },
+  // The dongle may already have spent a credit when the transfer fails
+  'generate-license': { maxAttempts: 2, baseDelayMs: 0, requiresConfirmation: true },
+  // Same bytes, same verdict until the key or the check setting changes
+  'check-license': { maxAttempts: 1, baseDelayMs: 0, requiresConfirmation: false },
+  // Re-writing the same license is harmless
+  'write-license': { maxAttempts: 3, baseDelayMs: 500, requiresConfirmation: false },
+};
+
+/** Transient failures worth another attempt. Missing devices or credits are not. */
+const RETRYABLE_CODES: HIDErrorCode[] = ['TIMEOUT', 'SHORT_RESPONSE', 'PROTOCOL_VIOLATION', 'VERIFICATION_FAILED'];
+
+export function isRetryable(err: unknown): boolean {
+  return err instanceof HIDError && RETRYABLE_CODES.includes(err.code);
+}
+
+function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
+
+/** Waits `ms`, or rejects as soon as `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// State Machine
+// ============================================================================
+
+export interface LicenseProcessCallbacks {
+  onStep?: (step: ProcessStep) => void;
+  /** Called whenever a new piece of data (UUID, counter, license) is obtained. */
+  onData?: (data: LicenseProcessData) => void;
+  /**
+   * Consulted right after the UUID is read, before any dongle credit is spent.
+   * Throwing (e.g. the ledger cannot be read) fails the run without generating.
+   */
+  checkUUID?: (uuid: Uint8Array) => UUIDDecision | Promise<UUIDDecision>;
+  /**
+   * Logs the license (see `auditLicense`) as soon as the dongle returns it,
+   * and again before it is checked and written; a license already logged is
+   * left alone. Throwing fails the step, so nothing unlogged is written.
+   */
+  auditLicense?: (data: LicenseProcessData) => Promise<void>;
+  /** How the license write is confirmed. Defaults to 'off'. */
+  verifyMode?: LicenseVerifyMode;
+  /**
+   * Key the license signature is checked against before it is written (see
+   * `writeGateKey`). Defaults to the bundled key; without one only the
+   * signature goes unchecked (see `assertLicenseAccepted`). `false` writes
+   * licenses unchecked.
+   */
+  licenseKey?: string | null | false;
+  /** Called before each automatic retry. */
+  onRetry?: (step: ExecutableStep, attempt: number, error: unknown, delayMs: number) => void;
+  /**
+   * Asked before retrying a step whose policy requires confirmation. Without
+   * it such steps are never retried automatically.
+   */
+  confirmRetry?: (step: ExecutableStep, error: unknown) => Promise<boolean>;
+  /**
+   * Asked for a replacement when the dongle turns out to be empty. Returning
+   * null (or omitting it) fails the run with CounterExhaustedError.
+   */
+  nextDongle?: (exhausted: DongleClient) => DongleClient | null;
+  /** Called after switching to the dongle returned by `nextDongle`. */
+  onFailover?: (from: DongleClient, to: DongleClient) => void;
+  /** Called when the counters around a generation show it did not cost exactly one credit. */
+  onCreditAnomaly?: (kind: CreditAnomalyKind, before: number, after: number) => void;
+  /**
+   * Aborting cancels the device operation in flight and fails the run with
+   * OperationCancelledError; `data` resumes like after any other failure.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Where a run with this data starts: anything already obtained is reused.
+ * A license the write gate rejected is checked again; replacing it spends a
+ * credit, so only a caller that clears `data.license` regenerates.
+ */
+export function resumeStep(data: LicenseProcessData): ExecutableStep {
+  if (data.license) return 'check-license';
+  if (data.uuid) return 'get-counter';
+  return 'get-uuid';
+}
+
+/**
+ * Runs the UUID → counter → generate → write sequence for one target as a
+ * state machine. `data` is filled in as the process advances. When a step
+ * gives up, its error is rethrown and `data.failedStep` is set; passing the
+ * same `data` again resumes there, reusing the UUID and license obtained.
+ */
+export async function runLicenseProcess(
+  dongle: DongleClient,
+  target: TargetDeviceClient,
+  data: LicenseProcessData,
+  callbacks: LicenseProcessCallbacks = {}
+): Promise<LicenseProcessData> {
+  const { onStep, onData, checkUUID, auditLicense, verifyMode = 'off', nextDongle, onFailover, onCreditAnomaly, signal } = callbacks;
+  const licenseKey = callbacks.licenseKey === undefined ? bundledPublicKey() : callbacks.licenseKey;
+
+  // Held from the counter check until the license is received, so pipelines
+  // for other targets never interleave their transfers on the same dongle
+  let releaseDongle: (() => void) | null = null;
+  const lockDongle = async (client: DongleClient) => {
+    releaseDongle?.();
+    releaseDongle = await client.lock.acquire(signal);
+  };
+  const unlockDongle = () => {
+    releaseDongle?.();
+    releaseDongle = null;
+  };
+
+  // Set once a transfer has been started, so a retry knows the counter may have moved
+  let generationStarted = false;
+
+  // Each handler performs one step and returns the next one (null = stop early)
+  const handlers: Record<ExecutableStep, () => Promise<ExecutableStep | 'complete' | null>> = {
+    'get-uuid': async () => {
+      data.uuid = await target.readUUID(signal);
+      onData?.(data);
+
+      let decision: UUIDDecision;
+      try {
+        decision = checkUUID ? await checkUUID(data.uuid) : { action: 'generate' };
+      } catch (e) {
+        // No answer is not a 'generate': a resumed run reads the UUID and asks again
+        data.uuid = null;
+        onData?.(data);
+        throw e;
+      }
+      if (signal?.aborted) {
+        // The duplicate check never concluded: a resumed run reads the UUID and asks again
+        data.uuid = null;
+        onData?.(data);
+        throw new OperationCancelledError();
+      }
+      if (decision.action === 'skip') {
+        data.skipReason = decision.reason;
+        onData?.(data);
+        return null;
+      }
+      if (decision.action === 'reuse') {
+        // Already issued: write the stored license, no dongle credit spent
+        data.license = decision.license;
+        data.reusedLicense = true;
+        onData?.(data);
+        return 'check-license';
+      }
+      return 'get-counter';
+    },
+
+    'get-counter': async () => {
+      if (!releaseDongle) await lockDongle(dongle);
+      let counterBefore = await dongle.getCounter(signal);
+
+      // Fail over through the pool until a dongle with credits answers
+      let next: DongleClient | null;
+      while (counterBefore !== null && counterBefore <= 0 && (next = nextDongle?.(dongle) ?? null)) {
+        onFailover?.(dongle, next);
+        await lockDongle(next);
+        dongle = next;
+        counterBefore = await dongle.getCounter(signal);
+      }
+
+      data.counterBefore = counterBefore;
+      data.dongle = dongle.serialNumber ?? dongle.productName;
+      onData?.(data);
+      if (counterBefore === null || counterBefore <= 0) {
+        throw new CounterExhaustedError(counterBefore);
+      }
+      return 'generate-license';
+    },
+
+    'generate-license': async () => {
+      if (generationStarted) {
+        // The failed attempt may already have spent a credit: measure this one on its own
+        data.counterBefore = await dongle.getCounter(signal);
+        onData?.(data);
+        if (data.counterBefore === null || data.counterBefore <= 0) {
+          throw new CounterExhaustedError(data.counterBefore);
+        }
+      }
+      generationStarted = true;
+
+      await dongle.sendFragmentedData(data.uuid!, signal);
+      data.license = await dongle.receiveFragmentedData(undefined, signal);
+      data.reusedLicense = false;
+      onData?.(data);
+
+      try {
+        // Not cancellable: the license is in hand and the counter read only accounts for it
+        data.counterAfter = await dongle.getCounter();
+      } finally {
+        // The credit is spent: log the license before anything else can fail or cancel
+        await auditLicense?.(data);
+      }
+      data.creditAnomaly = checkGeneration(data.counterBefore, data.counterAfter);
+      onData?.(data);
+      if (data.creditAnomaly) {
+        onCreditAnomaly?.(data.creditAnomaly, data.counterBefore!, data.counterAfter!);
+      }
+      unlockDongle();
+      return 'check-license';
+    },
+
+    'check-license': async () => {
+      // Already logged when generated; a reused license, or one whose log failed, is logged here
+      await auditLicense?.(data);
+      if (licenseKey !== false) {
+        const source = data.reusedLicense ? 'Target' : 'Dongle';
+        await assertLicenseAccepted(data.license!, data.uuid!, licenseKey, target.profile.licenseLength, source);
+      }
+      return 'write-license';
+    },
+
+    'write-license': async () => {
+      await target.writeLicense(data.license!, 'off', signal);
+
+      if (verifyMode !== 'off') {
+        onStep?.('verify-license');
+        await target.verifyLicense(data.license!, verifyMode, signal);
+      }
+      return 'complete';
+    },
+  };
+
+  let step: ExecutableStep | 'complete' | null = resumeStep(data);
+  data.failedStep = null;
+
+  try {
+    while (step !== null && step !== 'complete') {
+      const current: ExecutableStep = step;
+      try {
+        step = await runWithRetry(current, handlers[current], callbacks);
+      } catch (e) {
+        data.failedStep = current;
+        onData?.(data);
+        throw e;
+      }
+    }
+  } finally {
+    unlockDongle();
+  }
+
+  if (step === 'complete') {
+    onStep?.('complete');
+  }
+  return data;
+}
+
+async function runWithRetry<T>(
+  step: ExecutableStep,
+  handler: () => Promise<T>,
+  { onStep, onRetry, confirmRetry, signal }: LicenseProcessCallbacks
+): Promise<T> {
+  const policy = RETRY_POLICIES[step];
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    onStep?.(step);
+    try {
+      return await handler();
+    } catch (e) {
+      if (attempt >= policy.maxAttempts || !isRetryable(e)) {
+        throw e;
+      }
+      if (policy.requiresConfirmation && !(confirmRetry && await confirmRetry(step, e))) {
+        throwIfCancelled(signal);
+        throw e;
+      }
+
+      const delayMs = policy.baseDelayMs * 2 ** (attempt - 1);
+      onRetry?.(step, attempt + 1, e, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export function emptyProcessData(): LicenseProcessData {
+  return {
+    uuid: null,
+    license: null,
+    counterBefore: null,
+    counterAfter: null,
+    dongle: null,
+    creditAnomaly: null,
+    skipReason: null,
+    reusedLicense: false,
+    failedStep: null,
+  };
+}
+
+// ============================================================================
+// Offline Generation
+// ============================================================================
+
+/**
+ * Generates a license for a UUID with no target attached (bulk lists, the
+ * CLI). Fails over through `nextDongle` like the get-counter step and fills
+ * in the dongle, counters and license of `data`. Never retried: a failed
+ * transfer may already have spent the credit.
+ */
+export async function generateOffline(
+  dongle: DongleClient,
+  uuid: Uint8Array,
+  data: LicenseProcessData,
+  { nextDongle, onCreditAnomaly, signal }: Pick<LicenseProcessCallbacks, 'nextDongle' | 'onCreditAnomaly' | 'signal'> = {}
+): Promise<LicenseProcessData> {
+  data.uuid = uuid;
+  let release = await dongle.lock.acquire(signal);
+  try {
+    let counterBefore = await dongle.getCounter(signal);
+    let next: DongleClient | null;
+    while (counterBefore !== null && counterBefore <= 0 && (next = nextDongle?.(dongle) ?? null)) {
+      release();
+      release = await next.lock.acquire(signal);
+      dongle = next;
+      counterBefore = await dongle.getCounter(signal);
+    }
+
+    data.counterBefore = counterBefore;
+    data.dongle = dongle.serialNumber ?? dongle.productName;
+    if (counterBefore === null || counterBefore <= 0) {
+      throw new CounterExhaustedError(counterBefore);
+    }
+
+    await dongle.sendFragmentedData(uuid, signal);
+    data.license = await dongle.receiveFragmentedData(undefined, signal);
+    data.reusedLicense = false;
+
+    data.counterAfter = await dongle.getCounter();
+    data.creditAnomaly = checkGeneration(data.counterBefore, data.counterAfter);
+    if (data.creditAnomaly) {
+      onCreditAnomaly?.(data.creditAnomaly, data.counterBefore!, data.counterAfter!);
+    }
+    return data;
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,108 @@
+import { DongleClient, TargetDeviceClient } from '@/lib/hid/hid-client';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE } from '@/lib/hid/profiles';
+import { ReplayDivergence, ReplayTransport } from '@/lib/hid/replay';
+import { LicenseVerifyMode, LogEntry } from '@/lib/hid/types';
+import { RecordedSession } from '@/lib/logs/capture';
+import { runLicenseProcess, emptyProcessData, LicenseProcessData, UUIDDecision } from './license-process';
+
+// ============================================================================
+// Session Replay
+// ============================================================================
+
+export interface ReplayResult {
+  data: LicenseProcessData;
+  /** What the license process threw, or null when it completed. */
+  error: unknown;
+  divergences: ReplayDivergence[];
+  /** Recorded packets the run never reached, per device. */
+  unconsumed: Record<string, number>;
+}
+
+function hasPacket(session: RecordedSession, device: string, direction: 'tx' | 'rx', reportId: number): boolean {
+  return session.packets.some(p => p.device === device && p.direction === direction && p.reportId === reportId);
+}
+
+/** The verification mode the recorded run must have used, judged by its traffic. */
+export function inferVerifyMode(session: RecordedSession, profile = DEFAULT_DEVICE_PROFILE): LicenseVerifyMode {
+  const reportIds = profile.target.reportIds;
+  if (hasPacket(session, 'Target', 'tx', reportIds.readLicenseRequest)) return 'readback';
+  if (hasPacket(session, 'Target', 'rx', reportIds.storeLicenseAck)) return 'ack';
+  return 'off';
+}
+
+/** Generate when the dongle was asked for a license, else re-write what the target was sent. */
+function inferDecision(session: RecordedSession, profile: DeviceProfile): UUIDDecision {
+  if (hasPacket(session, 'Dongle', 'tx', profile.dongle.reportIds.licenseOut)) {
+    return { action: 'generate' };
+  }
+  const write = session.packets.find(p =>
+    p.device === 'Target' && p.direction === 'tx' && p.reportId === profile.target.reportIds.storeLicense
+  );
+  return write ? { action: 'reuse', license: write.payload } : { action: 'generate' };
+}
+
+/**
+ * The packets of the last license run in the session: everything from the
+ * last UUID request on. Earlier traffic (pool counter reads, previous units)
+ * would otherwise be matched against this run's reports.
+ */
+export function lastLicenseRun(session: RecordedSession, profile = DEFAULT_DEVICE_PROFILE): RecordedSession {
+  const start = session.packets.findLastIndex(p =>
+    p.device === 'Target' && p.direction === 'tx' && p.reportId === profile.target.reportIds.uuidRequest
+  );
+  return start <= 0 ? session : { ...session, packets: session.packets.slice(start) };
+}
+
+/**
+ * Runs the license process against a recorded session instead of hardware.
+ * The run makes the same choices the recorded one did (verification mode,
+ * reuse vs. generate, retries), so any divergence comes from the client code.
+ * `profile` must be the one the session was recorded with.
+ */
+export async function replayLicenseProcess(
+  session: RecordedSession,
+  onLog: (entry: LogEntry) => void = () => {},
+  profile: DeviceProfile = DEFAULT_DEVICE_PROFILE
+): Promise<ReplayResult> {
+  session = lastLicenseRun(session, profile);
+  const transports = {
+    dongle: new ReplayTransport('Dongle', session.packets.filter(p => p.device === 'Dongle'), {
+      productName: session.metadata?.dongles[0]?.productName ?? undefined,
+      profile,
+    }),
+    target: new ReplayTransport('Target', session.packets.filter(p => p.device === 'Target'), {
+      productName: session.metadata?.targets[0]?.productName ?? undefined,
+      profile,
+    }),
+  };
+
+  const dongle = new DongleClient(onLog, transports.dongle, profile);
+  const target = new TargetDeviceClient(onLog, transports.target, profile);
+  await dongle.reconnect();
+  await target.reconnect();
+
+  const data = emptyProcessData();
+  let error: unknown = null;
+  try {
+    await runLicenseProcess(dongle, target, data, {
+      checkUUID: () => inferDecision(session, profile),
+      verifyMode: inferVerifyMode(session, profile),
+      // Replay checks the protocol, not the license; the recording already shows what was written
+      licenseKey: false,
+      // Whether the operator retried shows up as repeated packets in the recording
+      confirmRetry: async () => true,
+    });
+  } catch (e) {
+    error = e;
+  }
+
+  return {
+    data,
+    error,
+    divergences: [...transports.dongle.divergences, ...transports.target.divergences],
+    unconsumed: {
+      Dongle: transports.dongle.remaining,
+      Target: transports.target.remaining,
+    },
+  };
+}
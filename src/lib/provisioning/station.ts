@@ -0,0 +1,27 @@
+import { ProcessStep } from './license-process';
+import { BatchUnitStatus } from './batch';
+
+// ============================================================================
+// Station Types
+// ============================================================================
+
+export type StationUnitStatus = 'idle' | 'running' | BatchUnitStatus;
+
+/** Pipeline state of one attached target on the station. */
+export interface StationUnitState {
+  status: StationUnitStatus;
+  step: ProcessStep;
+  uuidHex: string | null;
+  reusedLicense: boolean;
+  error: string | null;
+}
+
+export function idleStationUnit(): StationUnitState {
+  return {
+    status: 'idle',
+    step: 'idle',
+    uuidHex: null,
+    reusedLicense: false,
+    error: null,
+  };
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { LicenseVerifyMode } from '@/lib/hid/types';
+import { DeviceProfile, DEFAULT_DEVICE_PROFILE, findProfile } from '@/lib/hid/profiles';
+
+// ============================================================================
+// Operator Settings (persisted in localStorage)
+// ============================================================================
+
+export interface AppSettings {
+  verifyMode: LicenseVerifyMode;
+  /** Key that license signatures are checked against (PEM or hex); empty when unset. */
+  licensePublicKey: string;
+  /** Warn when a dongle's credits drop to this many or fewer. */
+  lowCreditThreshold: number;
+  /** Profile the clients are built for; see `useDeviceProfile`. */
+  deviceProfileId: string;
+  /** Profiles imported by the operator. */
+  customProfiles: DeviceProfile[];
+  /** Minutes without activity before the operator session locks. */
+  lockAfterMinutes: number;
+}
+
+const STORAGE_KEY = 'oro-license-tool.settings';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  // Off by default: older target firmware does not implement 0x83-0x85
+  verifyMode: 'off',
+  licensePublicKey: '',
+  lowCreditThreshold: 10,
+  deviceProfileId: DEFAULT_DEVICE_PROFILE.id,
+  customProfiles: [],
+  lockAfterMinutes: 5,
+};
+
+let cachedSettings: AppSettings | null = null;
+const listeners = new Set<() => void>();
+
+export function loadSettings(): AppSettings {
+  if (cachedSettings) return cachedSettings;
+  if (typeof localStorage === 'undefined') return DEFAULT_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    cachedSettings = stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    cachedSettings = DEFAULT_SETTINGS;
+  }
+  return cachedSettings!;
+}
+
+export function updateSettings(patch: Partial<AppSettings>) {
+  cachedSettings = { ...loadSettings(), ...patch };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cachedSettings));
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Current settings; the server render always sees the defaults. */
+export function useSettings(): AppSettings {
+  return useSyncExternalStore(subscribe, loadSettings, () => DEFAULT_SETTINGS);
+}
+
+/** The active device profile; the server render always sees the default. */
+export function useDeviceProfile(): DeviceProfile {
+  const { customProfiles, deviceProfileId } = useSettings();
+  return findProfile(customProfiles, deviceProfileId);
+}
@@ -0,0 +1,104 @@
+// ============================================================================
+// IndexedDB Access
+// ============================================================================
+
+const DB_NAME = 'oro-license-tool';
+const DB_VERSION = 5;
+
+export const STORES = {
+  LEDGER: 'ledger',
+  BULK_JOBS: 'bulk-jobs',
+  BULK_ITEMS: 'bulk-items',
+  OPERATORS: 'operators',
+  AUDIT: 'audit',
+  KEYS: 'keys',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, tx: IDBTransaction) {
+  if (!db.objectStoreNames.contains(STORES.LEDGER)) {
+    const ledger = db.createObjectStore(STORES.LEDGER, { keyPath: 'id' });
+    ledger.createIndex('timestamp', 'timestamp');
+    ledger.createIndex('uuid', 'uuid');
+  }
+  // Encrypted entries are looked up by a keyed hash of the UUID (see vault.ts)
+  const ledger = tx.objectStore(STORES.LEDGER);
+  if (!ledger.indexNames.contains('uuidTag')) {
+    ledger.createIndex('uuidTag', 'uuidTag');
+  }
+  if (!db.objectStoreNames.contains(STORES.BULK_JOBS)) {
+    db.createObjectStore(STORES.BULK_JOBS, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.BULK_ITEMS)) {
+    const items = db.createObjectStore(STORES.BULK_ITEMS, { keyPath: 'id' });
+    items.createIndex('jobId', 'jobId');
+  }
+  if (!db.objectStoreNames.contains(STORES.OPERATORS)) {
+    const operators = db.createObjectStore(STORES.OPERATORS, { keyPath: 'id' });
+    operators.createIndex('login', 'login', { unique: true });
+  }
+  if (!db.objectStoreNames.contains(STORES.AUDIT)) {
+    const audit = db.createObjectStore(STORES.AUDIT, { keyPath: 'seq' });
+    audit.createIndex('licenseHash', 'licenseHash');
+  }
+  if (!db.objectStoreNames.contains(STORES.KEYS)) {
+    db.createObjectStore(STORES.KEYS, { keyPath: 'id' });
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error("IndexedDB is not available in this environment."));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/** Run `fn` inside a transaction and resolve once the transaction commits. */
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Like `withStore` across several stores: all of `fn`'s writes commit or none do. */
+export async function withStores(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => void
+): Promise<void> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    fn(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,437 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { Mutex } from '@/lib/hid/mutex';
+import { STORES, StoreName, withStore, withStores } from './db';
+import { fromHex, toHex } from '@/lib/utils';
+
+// ============================================================================
+// Encrypted Storage (the vault)
+// ============================================================================
+//
+// UUIDs and licenses are sealed with AES-GCM before they reach IndexedDB.
+// The keys are derived from a workstation passphrase with PBKDF2 and live
+// only in memory: a reload, a sign-out or "Lock" forgets them, and nothing
+// that needs the sealed fields works until the passphrase is entered again.
+//
+// The ledger is looked up by UUID, so sealed entries carry `uuidTag`, an
+// HMAC of the UUID under a second derived key, and are indexed by that.
+
+/** Stores with sealed fields, and which fields. */
+const SEALED_STORES = {
+  [STORES.LEDGER]: { fields: ['uuid', 'license'], tagged: true },
+  [STORES.BULK_ITEMS]: { fields: ['uuid', 'license'], tagged: false },
+} as const;
+
+export type SealedStoreName = keyof typeof SEALED_STORES;
+
+/** Everything a backup holds: the ledger and bulk jobs, opened. */
+const BACKUP_STORES: StoreName[] = [STORES.LEDGER, STORES.BULK_JOBS, STORES.BULK_ITEMS];
+
+const VAULT_ID = 'vault';
+const PBKDF2_ITERATIONS = 600_000;
+// What a backup may ask for: no trivial keys, no derivation that hangs the tab
+const BACKUP_MIN_ITERATIONS = 100_000;
+const BACKUP_MAX_ITERATIONS = 10_000_000;
+const CHECK_TEXT = 'oro-license-tool vault';
+
+export const BACKUP_FORMAT = 'oro-vault-backup/1';
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Encrypted storage is locked. Enter the storage passphrase to continue.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+interface Sealed {
+  iv: string;
+  data: string;
+}
+
+interface KDFParams {
+  salt: string;
+  iterations: number;
+}
+
+/** Kept in the keys store: how to derive the keys, and a value to check them with. */
+interface VaultHeader extends KDFParams {
+  id: typeof VAULT_ID;
+  check: Sealed;
+  createdAt: number;
+  changedAt: number;
+}
+
+interface VaultKeys {
+  params: KDFParams;
+  cipher: CryptoKey;
+  tag: CryptoKey;
+}
+
+export interface VaultBackup {
+  format: typeof BACKUP_FORMAT;
+  createdAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256' } & KDFParams;
+  payload: Sealed;
+}
+
+type StoredRecord = Record<string, unknown> & { id: string };
+
+// ============================================================================
+// Crypto
+// ============================================================================
+
+/** Throws with an operator-facing message when the passphrase is too weak. */
+export function validatePassphrase(passphrase: string) {
+  if (passphrase.length < 10) {
+    throw new Error('The passphrase must be at least 10 characters');
+  }
+}
+
+async function deriveKeys(passphrase: string, params: KDFParams): Promise<VaultKeys> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(params.salt).slice(), iterations: params.iterations },
+    material,
+    512
+  ));
+  return {
+    params,
+    cipher: await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    tag: await crypto.subtle.importKey('raw', bits.slice(32), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  };
+}
+
+function newParams(): KDFParams {
+  return { salt: toHex(crypto.getRandomValues(new Uint8Array(16))), iterations: PBKDF2_ITERATIONS };
+}
+
+/** `context` is bound in as associated data: a sealed value only opens where it was sealed. */
+async function encrypt(keys: VaultKeys, value: unknown, context: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(context) },
+    keys.cipher,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { iv: toHex(iv), data: toHex(new Uint8Array(data)) };
+}
+
+async function decrypt<T>(keys: VaultKeys, sealed: Sealed, context: string): Promise<T> {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromHex(sealed.iv).slice(), additionalData: new TextEncoder().encode(context) },
+    keys.cipher,
+    fromHex(sealed.data).slice()
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+async function tagOf(keys: VaultKeys, value: string): Promise<string> {
+  const mac = await crypto.subtle.sign('HMAC', keys.tag, new TextEncoder().encode(value));
+  return toHex(new Uint8Array(mac));
+}
+
+async function sealRecord(keys: VaultKeys, store: SealedStoreName, record: StoredRecord): Promise<StoredRecord> {
+  const { fields, tagged } = SEALED_STORES[store];
+  const rest: StoredRecord = { ...record };
+  const secret: Record<string, unknown> = {};
+  for (const field of fields) {
+    secret[field] = record[field];
+    delete rest[field];
+  }
+
+  if (tagged) {
+    rest.uuidTag = typeof secret.uuid === 'string' ? await tagOf(keys, secret.uuid) : null;
+  }
+  return { ...rest, sealed: await encrypt(keys, secret, `${store}:${record.id}`) };
+}
+
+/** Records from before the vault existed have no `sealed` and come back as they are. */
+async function openRecord(keys: VaultKeys, store: SealedStoreName, stored: StoredRecord): Promise<StoredRecord> {
+  if (!stored.sealed) return stored;
+
+  const rest: StoredRecord = { ...stored };
+  delete rest.sealed;
+  delete rest.uuidTag;
+  const secret = await decrypt<Record<string, unknown>>(keys, stored.sealed as Sealed, `${store}:${stored.id}`);
+  return { ...rest, ...secret };
+}
+
+// ============================================================================
+// Vault State
+// ============================================================================
+
+export type VaultState = 'unknown' | 'uninitialized' | 'locked' | 'unlocked';
+
+let state: VaultState = 'unknown';
+let keys: VaultKeys | null = null;
+const listeners = new Set<() => void>();
+
+// Sealed reads and writes against the keys of the moment; a passphrase change holds it throughout
+const vaultLock = new Mutex();
+
+function setState(next: VaultState, nextKeys: VaultKeys | null) {
+  state = next;
+  keys = nextKeys;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** The vault state; 'unknown' until `refreshVault` has looked. */
+export function useVaultState(): VaultState {
+  return useSyncExternalStore(subscribe, () => state, () => 'unknown');
+}
+
+function loadHeader(): Promise<VaultHeader | undefined> {
+  return withStore<VaultHeader | undefined>(STORES.KEYS, 'readonly', store => store.get(VAULT_ID));
+}
+
+export async function refreshVault(): Promise<VaultState> {
+  if (state === 'unlocked') return state;
+  setState((await loadHeader()) ? 'locked' : 'uninitialized', null);
+  return state;
+}
+
+function requireKeys(): VaultKeys {
+  if (!keys) throw new VaultLockedError();
+  return keys;
+}
+
+/** Re-seal every sealed store with `next` and save `header`, in one transaction. */
+async function rewriteSealedStores(current: VaultKeys | null, next: VaultKeys, header: VaultHeader) {
+  const names = Object.keys(SEALED_STORES) as SealedStoreName[];
+  const rewritten = new Map<SealedStoreName, StoredRecord[]>();
+  for (const name of names) {
+    const stored = await withStore<StoredRecord[]>(name, 'readonly', store => store.getAll());
+    const resealed: StoredRecord[] = [];
+    for (const record of stored) {
+      // Without current keys only unsealed records can be here (first setup)
+      const opened = current ? await openRecord(current, name, record) : record;
+      resealed.push(await sealRecord(next, name, opened));
+    }
+    rewritten.set(name, resealed);
+  }
+
+  await withStores([...names, STORES.KEYS], 'readwrite', tx => {
+    rewritten.forEach((records, name) => {
+      const store = tx.objectStore(name);
+      records.forEach(record => store.put(record));
+    });
+    tx.objectStore(STORES.KEYS).put(header);
+  });
+}
+
+async function newHeader(next: VaultKeys, createdAt: number): Promise<VaultHeader> {
+  return {
+    id: VAULT_ID,
+    ...next.params,
+    check: await encrypt(next, CHECK_TEXT, VAULT_ID),
+    createdAt,
+    changedAt: Date.now(),
+  };
+}
+
+/** First setup: encrypts whatever the stores already hold in the clear. */
+export function setUpVault(passphrase: string): Promise<void> {
+  return vaultLock.runExclusive(async () => {
+    validatePassphrase(passphrase);
+    if (await loadHeader()) {
+      throw new Error('Encrypted storage is already set up');
+    }
+    const next = await deriveKeys(passphrase, newParams());
+    await rewriteSealedStores(null, next, await newHeader(next, Date.now()));
+    setState('unlocked', next);
+  });
+}
+
+/** Resolves false for a wrong passphrase. */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const header = await loadHeader();
+  if (!header) {
+    throw new Error('Encrypted storage is not set up');
+  }
+
+  const candidate = await deriveKeys(passphrase, header);
+  try {
+    await decrypt(candidate, header.check, VAULT_ID);
+  } catch {
+    return false;
+  }
+  setState('unlocked', candidate);
+  return true;
+}
+
+export function lockVault() {
+  if (state === 'unlocked') setState('locked', null);
+}
+
+/** Derive new keys from `next` and re-encrypt every sealed record under them. */
+export function changeVaultPassphrase(current: string, next: string): Promise<void> {
+  return vaultLock.runExclusive(async () => {
+    validatePassphrase(next);
+    const header = await loadHeader();
+    if (!header) {
+      throw new Error('Encrypted storage is not set up');
+    }
+    const currentKeys = await deriveKeys(current, header);
+    try {
+      await decrypt(currentKeys, header.check, VAULT_ID);
+    } catch {
+      throw new Error('The current passphrase is wrong');
+    }
+
+    const nextKeys = await deriveKeys(next, newParams());
+    await rewriteSealedStores(currentKeys, nextKeys, await newHeader(nextKeys, header.createdAt));
+    setState('unlocked', nextKeys);
+  });
+}
+
+// ============================================================================
+// Sealed Records
+// ============================================================================
+
+/** Seal and put `records` in one transaction. */
+export function putSealed<T extends { id: string }>(store: SealedStoreName, records: T[]): Promise<void> {
+  return vaultLock.runExclusive(async () => {
+    const current = requireKeys();
+    const sealed: StoredRecord[] = [];
+    for (const record of records) {
+      sealed.push(await sealRecord(current, store, record as unknown as StoredRecord));
+    }
+    await withStore(store, 'readwrite', objectStore => {
+      sealed.forEach(record => objectStore.put(record));
+    });
+  });
+}
+
+async function openAll<T>(
+  current: VaultKeys,
+  store: SealedStoreName,
+  query: (objectStore: IDBObjectStore) => IDBRequest<unknown[]>
+): Promise<T[]> {
+  const stored = await withStore(store, 'readonly', query) as StoredRecord[];
+  const opened: T[] = [];
+  for (const record of stored) {
+    opened.push(await openRecord(current, store, record) as unknown as T);
+  }
+  return opened;
+}
+
+/** Run a getAll-style `query` and open the records it returns. */
+export function getSealed<T>(
+  store: SealedStoreName,
+  query: (objectStore: IDBObjectStore) => IDBRequest<unknown[]>
+): Promise<T[]> {
+  return vaultLock.runExclusive(() => openAll<T>(requireKeys(), store, query));
+}
+
+/**
+ * Records of a tagged store for a UUID (lowercase hex). The tag and the read
+ * use the same keys: a passphrase change cannot slip in between.
+ */
+export function getSealedByUUID<T>(store: SealedStoreName, uuid: string): Promise<T[]> {
+  return vaultLock.runExclusive(async () => {
+    const current = requireKeys();
+    const tag = await tagOf(current, uuid);
+    return openAll<T>(current, store, objectStore => objectStore.index('uuidTag').getAll(tag));
+  });
+}
+
+/** The `uuidTag` index key of a UUID (lowercase hex), under the keys of the moment. */
+export function uuidTag(uuid: string): Promise<string> {
+  return vaultLock.runExclusive(async () => tagOf(requireKeys(), uuid));
+}
+
+// ============================================================================
+// Backup
+// ============================================================================
+//
+// One JSON file: the KDF parameters in the clear and every backed-up record,
+// opened, as a single AES-GCM payload under the key of the moment. Restoring
+// needs the passphrase that was current when the backup was made.
+
+export function exportVaultBackup(): Promise<VaultBackup> {
+  return vaultLock.runExclusive(async () => {
+    const current = requireKeys();
+    const contents: Record<string, StoredRecord[]> = {};
+    for (const name of BACKUP_STORES) {
+      const stored = await withStore<StoredRecord[]>(name, 'readonly', store => store.getAll());
+      contents[name] = name in SEALED_STORES
+        ? await Promise.all(stored.map(record => openRecord(current, name as SealedStoreName, record)))
+        : stored;
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      createdAt: new Date().toISOString(),
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', ...current.params },
+      payload: await encrypt(current, contents, BACKUP_FORMAT),
+    };
+  });
+}
+
+/** The KDF parameters of an untrusted backup file, or an error if they are out of bounds. */
+function backupParams(kdf: VaultBackup['kdf']): KDFParams {
+  if (kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256') {
+    throw new Error('The backup uses an unsupported key derivation');
+  }
+  if (typeof kdf.salt !== 'string' || !/^([0-9a-f]{2}){16,64}$/i.test(kdf.salt)) {
+    throw new Error('The backup has an invalid salt');
+  }
+  const { iterations } = kdf;
+  if (!Number.isSafeInteger(iterations) || iterations < BACKUP_MIN_ITERATIONS || iterations > BACKUP_MAX_ITERATIONS) {
+    throw new Error(`The backup asks for ${iterations} PBKDF2 iterations; only ${BACKUP_MIN_ITERATIONS} to ${BACKUP_MAX_ITERATIONS} are accepted`);
+  }
+  return { salt: kdf.salt, iterations };
+}
+
+/**
+ * Merge a backup into this workstation's stores, sealed with the current
+ * keys. Records with the same ID are replaced; nothing else is removed.
+ * Resolves with the number of records restored.
+ */
+export function restoreVaultBackup(text: string, passphrase: string): Promise<number> {
+  return vaultLock.runExclusive(async () => {
+    const current = requireKeys();
+
+    let backup: VaultBackup;
+    try {
+      backup = JSON.parse(text);
+    } catch {
+      throw new Error('Not a JSON document');
+    }
+    if (backup.format !== BACKUP_FORMAT || !backup.kdf || !backup.payload) {
+      throw new Error(`Not a storage backup (expected format ${BACKUP_FORMAT})`);
+    }
+    const params = backupParams(backup.kdf);
+
+    let contents: Record<string, StoredRecord[]>;
+    try {
+      contents = await decrypt(await deriveKeys(passphrase, params), backup.payload, BACKUP_FORMAT);
+    } catch {
+      throw new Error('Wrong passphrase for this backup, or the file is damaged');
+    }
+
+    const names = BACKUP_STORES.filter(name => Array.isArray(contents[name]));
+    const prepared = new Map<StoreName, StoredRecord[]>();
+    for (const name of names) {
+      prepared.set(name, name in SEALED_STORES
+        ? await Promise.all(contents[name].map(record => sealRecord(current, name as SealedStoreName, record)))
+        : contents[name]);
+    }
+
+    await withStores(names, 'readwrite', tx => {
+      prepared.forEach((records, name) => {
+        const store = tx.objectStore(name);
+        records.forEach(record => store.put(record));
+      });
+    });
+    return [...prepared.values()].reduce((count, records) => count + records.length, 0);
+  });
+}
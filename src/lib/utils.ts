@@ -4,3 +4,38 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function toHex(data: Uint8Array, separator = ''): string {
+  return Array.from(data).map(b => b.toString(16).padStart(2, '0')).join(separator)
+}
+
+export function fromHex(hex: string): Uint8Array {
+  const clean = hex.replace(/\s/g, '')
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16)
+  }
+  return bytes
+}
+
+/** Save generated content through a temporary object URL. */
+export function downloadFile(filename: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** Classic hex dump: offset, hex bytes and printable ASCII, `width` bytes per line. */
+export function hexDump(data: Uint8Array, width = 16): string[] {
+  const lines: string[] = []
+  for (let offset = 0; offset < data.length; offset += width) {
+    const row = data.subarray(offset, offset + width)
+    const hex = Array.from(row).map(b => b.toString(16).padStart(2, '0')).join(' ')
+    const ascii = Array.from(row).map(b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('')
+    lines.push(`${offset.toString(16).padStart(4, '0')}  ${hex.padEnd(width * 3 - 1)}  |${ascii}|`)
+  }
+  return lines
+}